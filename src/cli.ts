@@ -0,0 +1,182 @@
+#!/usr/bin/env node
+import {dirname} from "path";
+
+import {ProjectSettings, ProjectReport, processProject, deletePreviouslyGeneratedFiles} from "./ng-typeview"
+import {ConfigFile, findConfigFile, loadConfigFile, configToProjectSettings} from "./config"
+import {watchProject} from "./project-watcher"
+import {formatViewTypeError} from "./viewtest-compiler"
+import {formatViewDiagnostic} from "./diagnostics"
+
+const usage = `Usage: ng-typeview <command> [options]
+
+Commands:
+  generate          generate the viewtest files
+  check             generate the viewtest files, compile them and
+                    report the type errors found in the views
+                    (fails on the errors met while generating, too)
+  clean             delete the generated viewtest files
+
+Options:
+  --path <folder>   the project folder (default: the current folder)
+  --exclude <glob>  folders or files to exclude from the analysis
+                    (can be given multiple times)
+  --out-dir <folder>
+                    write the viewtest files in that folder, instead of
+                    next to the controllers
+  --config <file>   the configuration file (default: ng-typeview.config.js
+                    or ng-typeview.config.json in the current folder)
+  --watch           keep running, regenerate (and check) the viewtests
+                    when files change (generate & check only)
+  --help            display this help`;
+
+const commands = ["generate", "check", "clean"];
+
+/**
+ * @hidden
+ */
+export interface CliArguments {
+    readonly command: string;
+    readonly path?: string;
+    readonly exclude: string[];
+    readonly config?: string;
+    readonly outDir?: string;
+    readonly watch: boolean;
+}
+
+/**
+ * @hidden
+ * Parse the command-line arguments (without the node & script paths).
+ * Throws a string describing the problem in case of invalid arguments.
+ */
+export function parseArguments(args: string[]): CliArguments {
+    let command: string|undefined = undefined;
+    let path: string|undefined = undefined;
+    let config: string|undefined = undefined;
+    let outDir: string|undefined = undefined;
+    let watch = false;
+    const exclude: string[] = [];
+    for (let i=0;i<args.length;i++) {
+        const arg = args[i];
+        const getValue = () => {
+            if (i+1 >= args.length) {
+                throw `Missing value for ${arg}`;
+            }
+            return args[++i];
+        };
+        switch (arg) {
+        case "--path":
+            path = getValue();
+            break;
+        case "--exclude":
+            exclude.push(getValue());
+            break;
+        case "--out-dir":
+            outDir = getValue();
+            break;
+        case "--config":
+            config = getValue();
+            break;
+        case "--watch":
+            watch = true;
+            break;
+        default:
+            if (arg.startsWith("-")) {
+                throw `Unknown option: ${arg}`;
+            }
+            if (command !== undefined) {
+                throw `Unexpected argument: ${arg}`;
+            }
+            if (commands.indexOf(arg) < 0) {
+                throw `Unknown command: ${arg}`;
+            }
+            command = arg;
+        }
+    }
+    if (command === undefined) {
+        throw "Missing command";
+    }
+    if (watch && command === "clean") {
+        throw "--watch is not supported by the clean command";
+    }
+    return {command, path, exclude, config, outDir, watch};
+}
+
+/**
+ * @hidden
+ * Build the project settings from the configuration file if
+ * there is one, and the command-line arguments.
+ */
+export function getProjectSettings(cliArgs: CliArguments): ProjectSettings {
+    const configPath = findConfigFile(cliArgs.config);
+    const config: ConfigFile = configPath ? loadConfigFile(configPath) : {};
+    const settings = configToProjectSettings(config, configPath ? dirname(configPath) : ".");
+    return {
+        ...settings,
+        path: cliArgs.path || settings.path,
+        outputDir: cliArgs.outDir || settings.outputDir,
+        blacklistedPaths: settings.blacklistedPaths.concat(cliArgs.exclude)
+    };
+}
+
+function printReport(report: ProjectReport): void {
+    report.diagnostics.forEach(d => console.log(formatViewDiagnostic(d)));
+    report.typeErrors.forEach(e => console.log(formatViewTypeError(e)));
+}
+
+function hasErrors(report: ProjectReport): boolean {
+    return report.typeErrors.length > 0 ||
+        report.diagnostics.some(d => d.severity === "error");
+}
+
+async function runCommand(cliArgs: CliArguments): Promise<number> {
+    const prjSettings = getProjectSettings(cliArgs);
+    if (cliArgs.watch) {
+        // the file watchers keep the process running
+        await watchProject(
+            {...prjSettings, compileViewtests: cliArgs.command === "check"},
+            report => {
+                console.log(`${new Date().toLocaleTimeString()}: viewtests updated, ` +
+                            `${report.typeErrors.length} error(s)`);
+                printReport(report);
+            });
+        return 0;
+    }
+    switch (cliArgs.command) {
+    case "clean":
+        deletePreviouslyGeneratedFiles(prjSettings);
+        return 0;
+    case "check":
+        const report = await processProject({...prjSettings, compileViewtests: true});
+        printReport(report);
+        return hasErrors(report) ? 1 : 0;
+    default:
+        printReport(await processProject(prjSettings));
+        return 0;
+    }
+}
+
+function main(args: string[]): void {
+    if (args.indexOf("--help") >= 0) {
+        console.log(usage);
+        return;
+    }
+    let cliArgs: CliArguments;
+    try {
+        cliArgs = parseArguments(args);
+    } catch (e) {
+        console.error(e);
+        console.error(usage);
+        process.exitCode = 2;
+        return;
+    }
+    runCommand(cliArgs)
+        .then(exitCode => process.exitCode = exitCode)
+        .catch(e => {
+            console.error(e);
+            process.exitCode = 2;
+        });
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2));
+}
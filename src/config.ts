@@ -0,0 +1,108 @@
+import {existsSync, readFileSync} from "fs";
+import {resolve, relative, dirname, extname} from "path";
+
+import {ProjectSettings} from "./ng-typeview"
+import {NgFilter, defaultNgFilters} from "./filters"
+import {AttributeDirectiveHandler, TagDirectiveHandler,
+        defaultTagDirectiveHandlers, defaultAttrDirectiveHandlers} from "./ng-directives"
+import {defaultCtrlViewConnectors, defaultModelViewConnectors,
+        defaultCtrlViewFragmentExtractors} from "./controller-parser"
+
+/**
+ * The contents of a ng-typeview configuration file, as used by the
+ * `ng-typeview` command-line tool. It can be a javascript module
+ * (`ng-typeview.config.js`) or a JSON file (`ng-typeview.config.json`).
+ *
+ * You can give any of the [[ProjectSettings]] fields; the ones you
+ * don't give get the default values (for instance [[defaultNgFilters]]).
+ * Note that if you give a list, it replaces the default list: from a
+ * javascript configuration file you can use `defaultNgFilters.concat(...)`
+ * and similar. In a JSON file, filters can be given as `{name, type}`
+ * objects instead of [[NgFilter]] instances.
+ * The project path and output folder are relative to the configuration file.
+ */
+export interface ConfigFile extends Partial<ProjectSettings> {
+    /**
+     * Paths to javascript modules (relative to the configuration file)
+     * containing directive handlers for your own directives. These modules
+     * can export `tagDirectives` and `attributeDirectives` lists, which
+     * are added to the tag and attribute directive handlers of the project.
+     */
+    directiveModules?: string[];
+}
+
+/**
+ * The configuration file names that the command-line tool
+ * looks for in the current folder, in order.
+ */
+export const defaultConfigFileNames = ["ng-typeview.config.js", "ng-typeview.config.json"];
+
+/**
+ * @hidden
+ * Find the configuration file to use: the one which was given
+ * if any, otherwise one of the default names in the current folder.
+ */
+export function findConfigFile(configPath?: string): string|undefined {
+    if (configPath) {
+        if (!existsSync(configPath)) {
+            throw "Configuration file not found: " + configPath;
+        }
+        return configPath;
+    }
+    return defaultConfigFileNames.find(existsSync);
+}
+
+/**
+ * @hidden
+ */
+export function loadConfigFile(configPath: string): ConfigFile {
+    const fullPath = resolve(configPath);
+    if (extname(fullPath).toLowerCase() === ".json") {
+        return JSON.parse(readFileSync(fullPath).toString());
+    }
+    return require(fullPath);
+}
+
+interface DirectiveModule {
+    tagDirectives?: TagDirectiveHandler[];
+    attributeDirectives?: AttributeDirectiveHandler[];
+}
+
+function toNgFilter(filter: NgFilter|{name: string, type: string}): NgFilter {
+    return filter instanceof NgFilter ? filter : new NgFilter(filter.name, filter.type);
+}
+
+/**
+ * Build the settings of a project from a configuration file,
+ * using the default values for the fields it doesn't specify.
+ * @param config the contents of the configuration file
+ * @param configDir the folder containing the configuration file,
+ *     paths in the configuration are relative to it.
+ * @returns the project settings
+ */
+export function configToProjectSettings(config: ConfigFile, configDir: string): ProjectSettings {
+    const resolvePath = (path: string) => relative(process.cwd(), resolve(configDir, path)) || ".";
+    const directiveModules: DirectiveModule[] = (config.directiveModules || [])
+        .map(m => require(resolve(configDir, m)));
+    const flatten = <T>(lists: T[][]) => (<T[]>[]).concat(...lists);
+    return {
+        path: resolvePath(config.path || "."),
+        blacklistedPaths: config.blacklistedPaths || [],
+        ngFilters: (config.ngFilters || defaultNgFilters).map(toNgFilter),
+        ctrlViewConnectors: config.ctrlViewConnectors || defaultCtrlViewConnectors,
+        modelViewConnectors: config.modelViewConnectors || defaultModelViewConnectors,
+        extraCtrlViewConnections: config.extraCtrlViewConnections || [],
+        tagDirectives: (config.tagDirectives || defaultTagDirectiveHandlers)
+            .concat(flatten(directiveModules.map(m => m.tagDirectives || []))),
+        attributeDirectives: (config.attributeDirectives || defaultAttrDirectiveHandlers)
+            .concat(flatten(directiveModules.map(m => m.attributeDirectives || []))),
+        ctrlViewFragmentExtractors: config.ctrlViewFragmentExtractors || defaultCtrlViewFragmentExtractors,
+        resolveImportsAsNonScope: config.resolveImportsAsNonScope,
+        compileViewtests: config.compileViewtests,
+        sourceMaps: config.sourceMaps,
+        outputDir: config.outputDir ? resolvePath(config.outputDir) : undefined,
+        resolveScopeTypes: config.resolveScopeTypes,
+        scopeInterfaceNames: config.scopeInterfaceNames,
+        onDiagnostic: config.onDiagnostic
+    };
+}
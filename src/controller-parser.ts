@@ -1,4 +1,5 @@
 import {readFileSync} from "fs";
+import {parse, relative} from "path";
 import * as ts from "typescript";
 import {Option, Vector, Tuple2} from "prelude.ts";
 
@@ -18,7 +19,8 @@ function parseScopeInterface(iface: ts.InterfaceDeclaration): Option<Tuple2<stri
         .filter(p => p.length > 0)
         .map(p => "<" + p.map((_,idx)=> "T" + idx).join(", ") + ">")
         .getOrElse("") ;
-    return Option.of(iface.getText())
+    // the viewtest declares its own Scope, not exported
+    return Option.of(iface.getText().replace(/^export\s+/, ""))
         .filter(_ => iface.name.getText() === "Scope")
         .map(cts => Tuple2.of(cts, typeParamsInfo()));
 }
@@ -97,7 +99,8 @@ export const maybeArrayLiteralExpression = maybeNodeType<ts.ArrayLiteralExpressi
  */
 export interface ControllerViewInfo {
     /**
-     * Name of an angular controller
+     * Name of an angular controller, or of a controller class
+     * (for instance for `controller: UserCtrl` in a modal)
      */
     readonly controllerName: string;
     /**
@@ -105,6 +108,33 @@ export interface ControllerViewInfo {
      * NOT absolute path on disk).
      */
     readonly viewPath: string;
+    /**
+     * The template of the view, if it's given inline rather
+     * than in the file at [[viewPath]].
+     */
+    readonly template?: InlineTemplate;
+    /**
+     * The alias of the controller in the view, if the view uses the
+     * controllerAs syntax (for instance `vm` for `controllerAs: 'vm'`
+     * or `controller: 'UserCtrl as vm'`).
+     */
+    readonly controllerAs?: string;
+    /**
+     * The ui-router state declaring the view, if any. The scope
+     * of the view then inherits from the scopes of the parent states.
+     */
+    readonly uiRouterState?: string;
+    /**
+     * The name of the view in the `views` of the ui-router state,
+     * for instance `detail@parent`, if the view is a named view.
+     */
+    readonly uiRouterView?: string;
+    /**
+     * The values which the ngRoute route of the view resolves, which
+     * the view reads through `$resolve` (the values resolved by
+     * ui-router states are found from [[uiRouterState]]).
+     */
+    readonly resolve?: string[];
 }
 
 /**
@@ -124,6 +154,16 @@ export interface ModelViewInfo {
      * NOT absolute path on disk).
      */
     readonly viewPath: string;
+    /**
+     * The name under which the view refers to the controller,
+     * if it does (for instance `$ctrl` for components).
+     */
+    readonly controllerAs?: string;
+    /**
+     * The name of the controller class, through which the
+     * expressions using [[controllerAs]] are type-checked.
+     */
+    readonly controllerClassName?: string;
 }
 
 function objectLiteralGetProperty(
@@ -143,24 +183,477 @@ function objectLiteralGetStringLiteralField(
         .flatMap(p => getFieldStringLiteralValue(p));
 }
 
-function parseModalOpen(callExpr : ts.CallExpression): Option<ControllerViewInfo> {
-    const paramObjectElements = Option.of(callExpr)
-        .filter(c => ["$modal.open", "this.$modal.open"]
-                .indexOf(c.expression.getText()) >= 0)
-        .flatMap(c => maybeSingleNode(c.arguments))
+/**
+ * @hidden
+ * Split the controller name and the alias of a
+ * controllerAs expression like `UserCtrl as vm`.
+ */
+export function splitControllerAs(controller: string): [string, Option<string>] {
+    const match = controller.match(/^\s*(\S+)\s+as\s+(\S+)\s*$/);
+    return match
+        ? [match[1], Option.of(match[2])]
+        : [controller.trim(), Option.none<string>()];
+}
+
+function buildCtrlViewInfo(rawViewPath: string, controller: string,
+                           controllerAs: Option<string>): ControllerViewInfo {
+    const [controllerName, alias] = splitControllerAs(controller);
+    const viewInfo: ControllerViewInfo = {controllerName, viewPath: rawViewPath};
+    return controllerAs.orElse(alias)
+        .map<ControllerViewInfo>(controllerAs => ({...viewInfo, controllerAs}))
+        .getOrElse(viewInfo);
+}
+
+const modalServiceNames = ["$modal", "$uibModal"];
+
+const maybeNoSubstitutionTemplateLiteral =
+    maybeNodeType<ts.NoSubstitutionTemplateLiteral>(ts.SyntaxKind.NoSubstitutionTemplateLiteral);
+
+// the name of the function or class whose parameters
+// angular injects, for a `Ctrl.$inject = [...]` annotation
+function getInjectionTargetName(fn: ts.Node): Option<string> {
+    const declaration = fn.kind === ts.SyntaxKind.Constructor ? fn.parent : fn;
+    return Option.of(declaration)
+        .filter(d => d.kind === ts.SyntaxKind.ClassDeclaration ||
+                d.kind === ts.SyntaxKind.FunctionDeclaration)
+        .flatMap(d => Option.of((<ts.ClassDeclaration|ts.FunctionDeclaration>d).name))
+        .map(n => n.text);
+}
+
+// the elements of a `targetName.$inject = [...]` assignment in a file
+function findInjectAssignment(sourceFile: ts.SourceFile, targetName: string): Option<Vector<ts.Expression>> {
+    let result = Option.none<Vector<ts.Expression>>();
+    const visit = (node: ts.Node) => {
+        if (result.isNone() && node.kind === ts.SyntaxKind.BinaryExpression &&
+            (<ts.BinaryExpression>node).operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+            const assignment = <ts.BinaryExpression>node;
+            result = maybePropertyAccessExpression(assignment.left)
+                .filter(p => p.name.text === "$inject" &&
+                        maybeIdentifier(p.expression).filter(i => i.text === targetName).isSome())
+                .flatMap(_ => maybeArrayLiteralExpression(assignment.right))
+                .map(l => Vector.ofIterable(l.elements));
+        }
+        if (result.isNone()) {
+            ts.forEachChild(node, visit);
+        }
+    };
+    visit(sourceFile);
+    return result;
+}
+
+// the name under which angular injects a parameter: the name of the
+// parameter, or the name given by `['$uibModal', (modals) => ...]`,
+// by a static `$inject` of the class of the constructor, or
+// by a `Ctrl.$inject = [...]` assignment.
+function getInjectedName(param: ts.ParameterDeclaration): string {
+    const fn = param.parent;
+    const idx = fn ? (<ts.FunctionLikeDeclaration>fn).parameters.indexOf(param) : -1;
+    const injectAnnotation = Option.of(fn)
+        .flatMap(f => maybeArrayLiteralExpression(f.parent))
+        .map(l => Vector.ofIterable(l.elements))
+        .orElse(Option.of(fn)
+                .filter(f => f.kind === ts.SyntaxKind.Constructor)
+                .flatMap(f => Option.of(f.parent))
+                .flatMap(c => Vector.ofIterable((<ts.ClassDeclaration>c).members)
+                         .find(m => maybeIdentifier(m.name).filter(i => i.text === "$inject").isSome()))
+                .flatMap(m => maybeArrayLiteralExpression((<ts.PropertyDeclaration>m).initializer))
+                .map(l => Vector.ofIterable(l.elements)))
+        .orElse(Option.of(fn)
+                .flatMap(getInjectionTargetName)
+                .flatMap(name => findInjectAssignment(param.getSourceFile(), name)));
+    return injectAnnotation
+        .flatMap(elts => elts.get(idx))
+        .flatMap(maybeStringLiteral)
+        .map(l => l.text)
+        .getOrElse(param.name.getText());
+}
+
+// the connectors parse the files on their own, but the type checker
+// only knows the nodes of the files of its program.
+function findProgramNode(program: ts.Program, node: ts.Node): Option<ts.Node> {
+    const find = (current: ts.Node): Option<ts.Node> => {
+        if (current.kind === node.kind && current.pos === node.pos && current.end === node.end) {
+            return Option.of(current);
+        }
+        let result = Option.none<ts.Node>();
+        ts.forEachChild(current, child => {
+            if (result.isNone() && child.pos <= node.pos && child.end >= node.end) {
+                result = find(child);
+            }
+        });
+        return result;
+    };
+    return Option.of(program.getSourceFile(node.getSourceFile().fileName)).flatMap(find);
+}
+
+// the angular-ui-bootstrap modal service type, or an interface extending it
+function isModalServiceType(checker: ts.TypeChecker, type: ts.Type): boolean {
+    const isInterface = (type.flags & ts.TypeFlags.Object) !== 0 &&
+        ((<ts.ObjectType>type).objectFlags & ts.ObjectFlags.Interface) !== 0;
+    return Option.of(type.symbol).filter(s => s.name === "IModalService").isSome() ||
+        (isInterface && checker.getBaseTypes(<ts.InterfaceType>type).some(t => isModalServiceType(checker, t)));
+}
+
+const functionLikeKinds = [
+    ts.SyntaxKind.FunctionDeclaration, ts.SyntaxKind.FunctionExpression, ts.SyntaxKind.ArrowFunction,
+    ts.SyntaxKind.MethodDeclaration, ts.SyntaxKind.Constructor];
+
+// the parameter that a receiver refers to, found without the type checker:
+// a parameter of an enclosing function for `name`, or a parameter property
+// of the enclosing class for `this.name`.
+function findReceiverParameter(receiver: ts.Expression): Option<ts.ParameterDeclaration> {
+    const hasName = (name: string) => (param: ts.ParameterDeclaration) =>
+        maybeIdentifier(param.name).filter(i => i.text === name).isSome();
+    const identifier = maybeIdentifier(receiver);
+    if (identifier.isSome()) {
+        let node: ts.Node|undefined = receiver.parent;
+        while (node) {
+            if (functionLikeKinds.indexOf(node.kind) >= 0) {
+                const param = Vector.ofIterable((<ts.FunctionLikeDeclaration>node).parameters)
+                    .find(hasName(identifier.getOrThrow().text));
+                if (param.isSome()) {
+                    return param;
+                }
+            }
+            node = node.parent;
+        }
+        return Option.none<ts.ParameterDeclaration>();
+    }
+    return maybePropertyAccessExpression(receiver)
+        .filter(p => p.expression.kind === ts.SyntaxKind.ThisKeyword)
+        .flatMap(p => {
+            let node: ts.Node|undefined = receiver.parent;
+            while (node && node.kind !== ts.SyntaxKind.ClassDeclaration) {
+                node = node.parent;
+            }
+            return Option.of(<ts.ClassDeclaration|undefined>node)
+                .flatMap(c => Vector.ofIterable(c.members).find(m => m.kind === ts.SyntaxKind.Constructor))
+                .flatMap(c => Vector.ofIterable((<ts.ConstructorDeclaration>c).parameters)
+                         .find(param => param.modifiers !== undefined && hasName(p.name.text)(param)));
+        });
+}
+
+// is the receiver of a call the angular-ui-bootstrap modal service?
+// The common `$uibModal` names are recognized directly, as well as the
+// parameters injected under these names. Otherwise, unless the receiver is
+// a parameter without a type, it's resolved through the type checker: by its
+// type (for instance `this.modals` with `private modals: IModalService`), or
+// by the name under which angular injects the parameter it refers to.
+function isModalService(receiver: ts.Expression, loadProgram: () => ts.Program): boolean {
+    const name = maybeIdentifier(receiver)
+        .orElse(maybePropertyAccessExpression(receiver)
+                .filter(p => p.expression.kind === ts.SyntaxKind.ThisKeyword)
+                .map(p => p.name));
+    if (name.filter(n => modalServiceNames.indexOf(n.text) >= 0).isSome()) {
+        return true;
+    }
+    const param = findReceiverParameter(receiver);
+    if (param.filter(p => modalServiceNames.indexOf(getInjectedName(p)) >= 0).isSome()) {
+        return true;
+    }
+    if (param.filter(p => !p.type || p.type.kind === ts.SyntaxKind.AnyKeyword).isSome()) {
+        // another service, typed as any
+        return false;
+    }
+    const program = loadProgram();
+    const checker = program.getTypeChecker();
+    const programReceiver = findProgramNode(program, receiver);
+    const injectedName = programReceiver
+        .map(r => maybePropertyAccessExpression(r).map<ts.Node>(p => p.name).getOrElse(r))
+        .flatMap(r => Option.of(checker.getSymbolAtLocation(r)))
+        .flatMap(s => Option.of(s.valueDeclaration))
+        .filter(d => d.kind === ts.SyntaxKind.Parameter)
+        .map(d => getInjectedName(<ts.ParameterDeclaration>d));
+    return injectedName.filter(n => modalServiceNames.indexOf(n) >= 0).isSome() ||
+        programReceiver
+        .map(r => checker.getNonNullableType(checker.getTypeAtLocation(r)))
+        .filter(t => isModalServiceType(checker, t))
+        .isSome();
+}
+
+/**
+ * A view template given inline in a typescript file,
+ * for instance as the `template` of a modal.
+ */
+export interface InlineTemplate {
+    /**
+     * The typescript file containing the template
+     */
+    readonly fileName: string;
+    readonly contents: string;
+    /**
+     * Where the template starts in the file (1-based)
+     */
+    readonly line: number;
+    readonly column: number;
+}
+
+function getInlineTemplate(lit: ts.LiteralExpression): InlineTemplate {
+    // the contents start after the quote
+    const start = lit.getSourceFile().getLineAndCharacterOfPosition(lit.getStart() + 1);
+    return {
+        fileName: lit.getSourceFile().fileName,
+        contents: lit.text,
+        line: start.line + 1,
+        column: start.character + 1
+    };
+}
+
+// the controller is given by name, or as a class (`controller: UserCtrl`)
+function getControllerField(elts: Vector<ts.ObjectLiteralElementLike>): Option<string> {
+    const controller = objectLiteralGetProperty("controller", elts)
+        .flatMap(maybePropertyAssignment)
+        .map(pa => pa.initializer);
+    return controller.flatMap(maybeStringLiteral).map(l => l.text)
+        .orElse(controller.flatMap(maybeIdentifier).map(i => i.text))
+        .orElse(controller.flatMap(maybePropertyAccessExpression).map(p => p.name.text));
+}
+
+// the options given to `$uibModal.open()`
+function getModalOptions(callExpr: ts.CallExpression,
+                         loadProgram: () => ts.Program): Option<Vector<ts.ObjectLiteralElementLike>> {
+    const options = maybeSingleNode(callExpr.arguments)
         .flatMap(a => maybeObjectLiteralExpression(a))
-        .map(o => Vector.ofIterable(o.properties));
+        .map(o => Vector.ofIterable(o.properties))
+        .filter(oe => ["template", "templateUrl", "component"].some(
+            field => objectLiteralGetProperty(field, oe).isSome()));
+    // other calls don't need the type checker
+    return maybePropertyAccessExpression(callExpr.expression)
+        .filter(p => p.name.text === "open" && options.isSome() &&
+                isModalService(p.expression, loadProgram))
+        .flatMap(_ => options);
+}
+
+// Modals opened with a `component` are checked through the component,
+// which declares the template and the controller.
+function parseModalOpen(callExpr : ts.CallExpression, projectPath: string,
+                        loadProgram: () => ts.Program): Option<ControllerViewInfo> {
+    const paramObjectElements = getModalOptions(callExpr, loadProgram);
 
     const getField = (name: string): Option<string> =>
         paramObjectElements.flatMap(oe => objectLiteralGetStringLiteralField(name, oe));
 
-    const controllerName = getField("controller");
-    const rawViewPath = getField("templateUrl");
+    const controllerName = paramObjectElements.flatMap(getControllerField);
+    const controllerAs = getField("controllerAs");
+    // an inline template is a view of its own, named after its position
+    const template = paramObjectElements
+        .flatMap(oe => objectLiteralGetProperty("template", oe))
+        .flatMap(maybePropertyAssignment)
+        .flatMap(pa => maybeStringLiteral(pa.initializer).map<ts.LiteralExpression>(l => l)
+                 .orElse(maybeNoSubstitutionTemplateLiteral(pa.initializer)))
+        .map(getInlineTemplate);
+    const rawViewPath = getField("templateUrl").orElse(template.map(
+        t => relative(projectPath, t.fileName).replace(/\.ts$/, "") + `.template${t.line}.html`));
+
+    return Option.liftA2((rawViewPath:string, ctrlName:string) =>
+                         buildCtrlViewInfo(rawViewPath, ctrlName, controllerAs))(
+                             rawViewPath, controllerName)
+        .map(viewInfo => template
+             .filter(_ => getField("templateUrl").isNone())
+             .map<ControllerViewInfo>(template => ({...viewInfo, template}))
+             .getOrElse(viewInfo));
+}
+
+/**
+ * @hidden
+ * A modal opened with a component, for instance through
+ * `$uibModal.open({component: 'editUser'})`.
+ */
+export interface ModalComponent {
+    readonly componentName: string;
+    /**
+     * Where the component is given in the file opening the modal (1-based)
+     */
+    readonly line: number;
+    readonly column: number;
+    /**
+     * The `component` field, for instance `component: 'editUser'`
+     */
+    readonly snippet: string;
+}
+
+function parseModalComponent(callExpr: ts.CallExpression,
+                             loadProgram: () => ts.Program): Option<ModalComponent> {
+    return getModalOptions(callExpr, loadProgram)
+        .flatMap(oe => objectLiteralGetProperty("component", oe))
+        .flatMap(field => getFieldStringLiteralValue(field).map(componentName => {
+            const start = field.getSourceFile().getLineAndCharacterOfPosition(field.getStart());
+            return {
+                componentName,
+                line: start.line + 1,
+                column: start.character + 1,
+                snippet: field.getText()
+            };
+        }));
+}
+
+// the name of a property, whether it's an identifier or a string literal
+function getPropertyName(elt: ts.ObjectLiteralElementLike): Option<string> {
+    return maybeIdentifier(elt.name).map(i => i.text)
+        .orElse(maybeStringLiteral(elt.name).map(l => l.text));
+}
+
+function objectLiteralGetObjectLiteralField(
+    propName: string, elts: Vector<ts.ObjectLiteralElementLike>): Option<ts.ObjectLiteralExpression> {
+    return objectLiteralGetProperty(propName, elts)
+        .flatMap(maybePropertyAssignment)
+        .flatMap(pa => maybeObjectLiteralExpression(pa.initializer));
+}
+
+/**
+ * @hidden
+ * A view of a ui-router state: the view of the state itself,
+ * or one of the named views of its `views` field.
+ */
+export interface UiRouterStateView {
+    /**
+     * The name of the view, for instance `detail@parent`,
+     * or "" for the view of the state itself.
+     */
+    readonly viewName: string;
+    readonly controllerName: Option<string>;
+    readonly controllerAs: Option<string>;
+    readonly templateUrl: Option<string>;
+}
+
+/**
+ * @hidden
+ * A state declared through `$stateProvider.state('name', {...})`
+ * or `$stateProvider.state({name: 'name', ...})`.
+ */
+export interface UiRouterState {
+    readonly name: string;
+    /**
+     * The parent state, given by the `parent` field or by the dotted name
+     */
+    readonly parent: Option<string>;
+    readonly abstract: boolean;
+    readonly views: UiRouterStateView[];
+    /**
+     * The names of the values which the state resolves
+     */
+    readonly resolve: string[];
+}
+
+// the call and the index of the argument which an object literal is, skipping type assertions
+function getCallOfArgument(objLit: ts.ObjectLiteralExpression): Option<[ts.CallExpression, number]> {
+    let arg: ts.Node = objLit;
+    while (arg.parent && [ts.SyntaxKind.TypeAssertionExpression, ts.SyntaxKind.AsExpression,
+                          ts.SyntaxKind.ParenthesizedExpression].indexOf(arg.parent.kind) >= 0) {
+        arg = arg.parent;
+    }
+    return maybeCallExpression(arg.parent)
+        .map<[ts.CallExpression, number]>(c => [c, c.arguments.indexOf(<ts.Expression>arg)]);
+}
+
+function getMethodName(callExpr: ts.CallExpression): Option<string> {
+    return maybePropertyAccessExpression(callExpr.expression).map(p => p.name.text);
+}
+
+// the `.state()` call configured by an object literal
+function getStateCall(objLit: ts.ObjectLiteralExpression): Option<ts.CallExpression> {
+    return getCallOfArgument(objLit)
+        .filter(([c, idx]) => getMethodName(c).filter(n => n === "state").isSome() &&
+                idx === (c.arguments.length > 1 ? 1 : 0))
+        .map(([c, _]) => c);
+}
+
+function parseStateView(viewName: string, elts: Vector<ts.ObjectLiteralElementLike>): UiRouterStateView {
+    const controller = objectLiteralGetStringLiteralField("controller", elts).map(splitControllerAs);
+    return {
+        viewName,
+        controllerName: controller.map(c => c[0]),
+        controllerAs: objectLiteralGetStringLiteralField("controllerAs", elts)
+            .orElse(controller.flatMap(c => c[1])),
+        templateUrl: objectLiteralGetStringLiteralField("templateUrl", elts)
+    };
+}
+
+/**
+ * @hidden
+ * Parse the configuration of a ui-router state. The views of the state
+ * are its named `views` if it has some, else the state itself.
+ */
+export function parseUiRouterState(objLit: ts.ObjectLiteralExpression): Option<UiRouterState> {
+    const elts = Vector.ofIterable(objLit.properties);
+    const stateName = getStateCall(objLit)
+        .flatMap(call => call.arguments.length > 1
+                 ? maybeStringLiteral(call.arguments[0]).map(l => l.text)
+                 : objectLiteralGetStringLiteralField("name", elts));
+    return stateName.map(name => {
+        const dotIdx = name.lastIndexOf(".");
+        const views = objectLiteralGetObjectLiteralField("views", elts)
+            .map(v => Vector.ofIterable(v.properties).mapOption(
+                view => Option.liftA2(parseStateView)(
+                    getPropertyName(view),
+                    maybePropertyAssignment(view)
+                        .flatMap(pa => maybeObjectLiteralExpression(pa.initializer))
+                        .map(o => Vector.ofIterable(o.properties)))))
+            .getOrElse(Vector.of(parseStateView("", elts)));
+        return {
+            name,
+            parent: objectLiteralGetStringLiteralField("parent", elts)
+                .orElse(Option.of(name.substring(0, dotIdx)).filter(_ => dotIdx > 0)),
+            abstract: objectLiteralGetProperty("abstract", elts)
+                .flatMap(maybePropertyAssignment)
+                .filter(pa => pa.initializer.kind === ts.SyntaxKind.TrueKeyword)
+                .isSome(),
+            views: views.toArray(),
+            resolve: objectLiteralGetObjectLiteralField("resolve", elts)
+                .map(r => Vector.ofIterable(r.properties).mapOption(getPropertyName).toArray())
+                .getOrElse([])
+        };
+    });
+}
+
+// the views of a state which have both a template and a controller
+function getStateCtrlViewInfos(state: UiRouterState): Vector<ControllerViewInfo> {
+    return Vector.ofIterable(state.views).mapOption(view => Option.liftA2(
+        (viewPath: string, controllerName: string) => {
+            const viewInfo: ControllerViewInfo = {controllerName, viewPath, uiRouterState: state.name};
+            const withAlias = view.controllerAs
+                .map<ControllerViewInfo>(controllerAs => ({...viewInfo, controllerAs}))
+                .getOrElse(viewInfo);
+            return view.viewName === ""
+                ? withAlias
+                : {...withAlias, uiRouterView: view.viewName};
+        })(view.templateUrl, view.controllerName));
+}
 
-    const buildCtrlViewInfo = (rawViewPath:string,ctrlName:string):ControllerViewInfo =>
-        ({controllerName: ctrlName, viewPath: rawViewPath});
+// is it a call like `$routeProvider.when(...)`, or a chained call like
+// `$routeProvider.when(...).otherwise(...)`
+function isRouteProviderCall(callExpr: ts.CallExpression): boolean {
+    let receiver: ts.Expression = callExpr;
+    while (maybeCallExpression(receiver).flatMap(getMethodName)
+           .filter(n => n === "when" || n === "otherwise").isSome()) {
+        receiver = (<ts.PropertyAccessExpression>(<ts.CallExpression>receiver).expression).expression;
+    }
+    return /(^|\.)\$?routeProvider$/.test(receiver.getText());
+}
 
-    return Option.liftA2(buildCtrlViewInfo)(rawViewPath, controllerName);
+/**
+ * @hidden
+ * Parse the configuration of a ngRoute route, given by
+ * `$routeProvider.when('/path', {...})` or `$routeProvider.otherwise({...})`.
+ */
+export function parseNgRoute(objLit: ts.ObjectLiteralExpression): Option<ControllerViewInfo> {
+    const elts = Vector.ofIterable(objLit.properties);
+    const isRoute = getCallOfArgument(objLit)
+        .filter(([c, idx]) => getMethodName(c)
+                .filter(n => (n === "when" && idx === 1) || (n === "otherwise" && idx === 0))
+                .isSome() && isRouteProviderCall(c))
+        .isSome();
+    const resolve = objectLiteralGetObjectLiteralField("resolve", elts)
+        .map(r => Vector.ofIterable(r.properties).mapOption(getPropertyName).toArray());
+    return Option.liftA2((rawViewPath:string, ctrlName:string) =>
+                         buildCtrlViewInfo(rawViewPath, ctrlName,
+                                           objectLiteralGetStringLiteralField("controllerAs", elts)))(
+                             objectLiteralGetStringLiteralField("templateUrl", elts),
+                             objectLiteralGetStringLiteralField("controller", elts))
+        .filter(_ => isRoute)
+        .map(viewInfo => resolve
+             .map<ControllerViewInfo>(resolve => ({...viewInfo, resolve}))
+             .getOrElse(viewInfo));
 }
 
 function parseModuleState(prop : ts.ObjectLiteralExpression): Option<ControllerViewInfo> {
@@ -175,15 +668,40 @@ function parseModuleState(prop : ts.ObjectLiteralExpression): Option<ControllerV
             "controller", Vector.ofIterable(prop.properties));
         const rawViewPath = objectLiteralGetStringLiteralField(
             "templateUrl", Vector.ofIterable(prop.properties));
+        const controllerAs = objectLiteralGetStringLiteralField(
+            "controllerAs", Vector.ofIterable(prop.properties));
 
-        const buildCtrlViewInfo = (rawViewPath:string, ctrlName:string):ControllerViewInfo =>
-            ({controllerName: ctrlName, viewPath: rawViewPath});
-        return Option.liftA2(buildCtrlViewInfo)(rawViewPath, controllerName);
+        return Option.liftA2((rawViewPath:string, ctrlName:string) =>
+                             buildCtrlViewInfo(rawViewPath, ctrlName, controllerAs))(
+                                 rawViewPath, controllerName);
     }
     return Option.none<ControllerViewInfo>();
 }
 
-function parseAngularModule(expr: ts.ExpressionStatement): Option<[string,string]> {
+interface AngularModuleController {
+    readonly moduleName: string;
+    readonly controllerName: string;
+    /**
+     * the name of the controller class, if the controller is a class
+     */
+    readonly controllerClassName: Option<string>;
+}
+
+// for `.controller('UserCtrl', UserCtrl)` or `.controller('UserCtrl', ['$http', UserCtrl])`
+function getControllerClassName(callExpr: ts.CallExpression): Option<string> {
+    const ctrlParam = Option.of(callExpr)
+        .filter(c => c.arguments.length > 1)
+        .map(c => c.arguments[1]);
+    return ctrlParam
+        .flatMap(maybeArrayLiteralExpression)
+        .filter(l => l.elements.length > 0)
+        .map(l => l.elements[l.elements.length-1])
+        .orElse(ctrlParam)
+        .flatMap(maybeIdentifier)
+        .map(i => i.text);
+}
+
+function parseAngularModule(expr: ts.ExpressionStatement): Option<AngularModuleController> {
     const callExpr = maybeCallExpression(expr.expression);
     const prop0 = callExpr
         .flatMap(callExpr => maybePropertyAccessExpression(callExpr.expression));
@@ -212,11 +730,13 @@ function parseAngularModule(expr: ts.ExpressionStatement): Option<[string,string
                 .filter(c => c.arguments.length > 0)
                 .flatMap(c => maybeStringLiteral(c.arguments[0]))
                 .map(s => s.text);
-            const buildModuleCtrl: ((x:string, y:string) => [string,string]) = (mod, ctrl) => [mod, ctrl];
+            const buildModuleCtrl = (moduleName: string, controllerName: string): AngularModuleController =>
+                ({moduleName, controllerName,
+                  controllerClassName: callExpr.flatMap(getControllerClassName)});
             return Option.liftA2(buildModuleCtrl)(moduleName, ctrlName);
         }
     }
-    return Option.none<[string,string]>();
+    return Option.none<AngularModuleController>();
 }
 
 function getPropertyByName(objLit: ts.ObjectLiteralExpression,
@@ -226,7 +746,8 @@ function getPropertyByName(objLit: ts.ObjectLiteralExpression,
             .find(p => maybeIdentifier(p.name).filter(i => i.getText() === propName).isSome()));
 }
 
-function parseAngularDirectiveTemplate(modelPath: string, callExpr: ts.CallExpression): Option<ModelViewInfo> {
+// is it a call like `angular.module(...).<methodName>(...)`
+function isAngularModuleCall(callExpr: ts.CallExpression, methodName: string): boolean {
     const prop0 =  maybePropertyAccessExpression(callExpr.expression);
 
     const prop = prop0
@@ -240,49 +761,260 @@ function parseAngularDirectiveTemplate(modelPath: string, callExpr: ts.CallExpre
         .flatMap(p => maybeIdentifier(p.name))
         .map(r => r.text);
 
-    if (receiver1.filter(v => v === "angular")
-        .orElse(call1.filter(v => v === "module")).isSome()) {
-        const moduleCall = prop0.map(p => p.name.text);
-        if (moduleCall.filter(v => v === "directive").isSome()) {
-            const directiveParam = Option.of(callExpr)
-                .filter(c => c.arguments.length > 1)
-                .map(c => c.arguments[1]);
-
-            const returnExpr = directiveParam
-                .flatMap(maybeArrayLiteralExpression)
-                .filter(l => l.elements.length > 0)
-                .map(l => l.elements[l.elements.length-1])
-                .orElse(directiveParam);
-
-            const arrowBodyExpr = returnExpr
-                .flatMap(maybeArrowFunction)
-                .flatMap(a => maybeBlock(a.body));
-            const fnBodyExpr = returnExpr
-                .flatMap(maybeFunctionExpression)
-                .map(fn => fn.body);
-            const bodyExpr = arrowBodyExpr.orElse(fnBodyExpr);
-
-            const resultExpr = bodyExpr
-                .flatMap(b => maybeReturnStatement(b.statements[b.statements.length-1]))
-                .flatMap(s => Option.of(s.expression));
-
-            const scopeObject = resultExpr
-                .flatMap(maybeAsExpression)
-                .map(a => a.expression)
-                .orElse(resultExpr);
-
-            const templateUrl = scopeObject
-                .flatMap(maybeObjectLiteralExpression)
-                .flatMap(e => getPropertyByName(e ,"templateUrl"))
-                .flatMap(maybePropertyAssignment)
-                .flatMap(a => maybeStringLiteral(a.initializer))
-                .map(s => s.text);
-            return templateUrl.map(viewPath => ({modelPath, viewPath}));
-        }
+    return receiver1.filter(v => v === "angular")
+        .orElse(call1.filter(v => v === "module")).isSome() &&
+        prop0.map(p => p.name.text).filter(v => v === methodName).isSome();
+}
+
+// the object returned by the factory of `.directive('name', factory)`
+function getDirectiveDefinition(callExpr: ts.CallExpression): Option<ts.ObjectLiteralExpression> {
+    const directiveParam = Option.of(callExpr)
+        .filter(c => c.arguments.length > 1)
+        .map(c => c.arguments[1]);
+
+    const returnExpr = directiveParam
+        .flatMap(maybeArrayLiteralExpression)
+        .filter(l => l.elements.length > 0)
+        .map(l => l.elements[l.elements.length-1])
+        .orElse(directiveParam);
+
+    const arrowBodyExpr = returnExpr
+        .flatMap(maybeArrowFunction)
+        .flatMap(a => maybeBlock(a.body));
+    const fnBodyExpr = returnExpr
+        .flatMap(maybeFunctionExpression)
+        .map(fn => fn.body);
+    const bodyExpr = arrowBodyExpr.orElse(fnBodyExpr);
+
+    const resultExpr = bodyExpr
+        .flatMap(b => maybeReturnStatement(b.statements[b.statements.length-1]))
+        .flatMap(s => Option.of(s.expression));
+
+    const scopeObject = resultExpr
+        .flatMap(maybeAsExpression)
+        .map(a => a.expression)
+        .orElse(resultExpr);
+
+    return scopeObject.flatMap(maybeObjectLiteralExpression);
+}
+
+function parseAngularDirectiveTemplate(modelPath: string, callExpr: ts.CallExpression): Option<ModelViewInfo> {
+    if (isAngularModuleCall(callExpr, "directive")) {
+        const templateUrl = getDirectiveDefinition(callExpr)
+            .flatMap(e => getPropertyByName(e ,"templateUrl"))
+            .flatMap(maybePropertyAssignment)
+            .flatMap(a => maybeStringLiteral(a.initializer))
+            .map(s => s.text);
+        return templateUrl.map(viewPath => ({modelPath, viewPath}));
     }
     return Option.none<ModelViewInfo>();
 }
 
+function parseAngularComponent(modelPath: string, callExpr: ts.CallExpression): Option<ModelViewInfo> {
+    if (!isAngularModuleCall(callExpr, "component")) {
+        return Option.none<ModelViewInfo>();
+    }
+    const componentProps = Option.of(callExpr)
+        .filter(c => c.arguments.length > 1)
+        .flatMap(c => maybeObjectLiteralExpression(c.arguments[1]))
+        .map(o => Vector.ofIterable(o.properties));
+    const templateUrl = componentProps
+        .flatMap(props => objectLiteralGetStringLiteralField("templateUrl", props));
+    // the controller of a component is normally a class
+    const controllerClassName = componentProps
+        .flatMap(props => objectLiteralGetProperty("controller", props))
+        .flatMap(maybePropertyAssignment)
+        .flatMap(pa => maybeIdentifier(pa.initializer))
+        .map(i => i.text);
+    const controllerAs = componentProps
+        .flatMap(props => objectLiteralGetStringLiteralField("controllerAs", props))
+        .getOrElse("$ctrl");
+    return templateUrl.map(viewPath => controllerClassName
+        .map<ModelViewInfo>(className => ({modelPath, viewPath, controllerAs, controllerClassName: className}))
+        .getOrElse({modelPath, viewPath, controllerAs}));
+}
+
+// the name of a component registration such as
+// `angular.module('app').component('name', {...})`
+function parseComponentName(callExpr: ts.CallExpression): Option<string> {
+    return Option.of(callExpr)
+        .filter(c => c.arguments.length > 0 && isAngularModuleChainCall(c, "component"))
+        .flatMap(c => maybeStringLiteral(c.arguments[0]))
+        .map(l => l.text);
+}
+
+/**
+ * @hidden
+ * A binding of the isolate scope of a directive (or of its controller
+ * with `bindToController`, or of a component), for instance `onSelect: '&'`.
+ */
+export interface DirectiveBinding {
+    /**
+     * The bound field, for instance `onSelect`
+     */
+    readonly name: string;
+    /**
+     * The attribute through which the value is given, as declared:
+     * the alias if there is one (`user` for `'=user'`), the field otherwise.
+     */
+    readonly attrName: string;
+    /**
+     * The binding type: `=`, `<`, `@` or `&`
+     */
+    readonly mode: string;
+}
+
+/**
+ * @hidden
+ * A directive or component of the project declaring isolate scope bindings.
+ */
+export interface DirectiveBindingsInfo {
+    readonly directivePath: string;
+    /**
+     * The name under which the directive is registered, for instance `userCard`
+     */
+    readonly directiveName: string;
+    /**
+     * Where the directive can be used, for instance `EA`
+     */
+    readonly restrict: string;
+    /**
+     * The type declaring the bound fields: the controller class for components
+     * and with `bindToController`, or the type the scope object is cast to
+     * (`scope: {...} as Scope`). If none, it's inferred like the scope of
+     * controllers.
+     */
+    readonly typeName: Option<string>;
+    readonly bindings: DirectiveBinding[];
+}
+
+// same as angular's isolate binding syntax
+const bindingRegex = /^\s*([@&<]|=\*?)\??\s*([\w$]*)\s*$/;
+
+function parseBindings(bindingsObj: ts.ObjectLiteralExpression): DirectiveBinding[] {
+    return Vector.ofIterable(bindingsObj.properties)
+        .mapOption(prop => maybePropertyAssignment(prop)
+                   .flatMap(pa => Option.liftA2((name: string, value: string) => ({name, value}))(
+                       maybeIdentifier(pa.name).map(i => i.text)
+                           .orElse(maybeStringLiteral(pa.name).map(l => l.text)),
+                       maybeStringLiteral(pa.initializer).map(l => l.text))))
+        .mapOption(({name, value}) => {
+            const match = value.match(bindingRegex);
+            return match
+                ? Option.of({name, attrName: match[2] || name, mode: match[1][0]})
+                : Option.none<DirectiveBinding>();
+        })
+        .toArray();
+}
+
+// `{...} as Scope` => {...} and `Scope`
+function unwrapCast(expr: ts.Expression): [ts.Expression, Option<string>] {
+    return maybeAsExpression(expr)
+        .map<[ts.Expression, Option<string>]>(a => [
+            a.expression,
+            Option.of(a.type)
+                .filter(t => t.kind === ts.SyntaxKind.TypeReference)
+                .map(t => (<ts.TypeReferenceNode>t).typeName.getText())])
+        .getOrElse([expr, Option.none<string>()]);
+}
+
+function parseDirectiveBindings(directivePath: string, callExpr: ts.CallExpression): Option<DirectiveBindingsInfo> {
+    const isDirective = isAngularModuleCall(callExpr, "directive");
+    if (!isDirective && !isAngularModuleCall(callExpr, "component")) {
+        return Option.none<DirectiveBindingsInfo>();
+    }
+    const directiveName = Option.of(callExpr)
+        .filter(c => c.arguments.length > 0)
+        .flatMap(c => maybeStringLiteral(c.arguments[0]))
+        .map(l => l.text);
+    const definitionProps = (isDirective
+        ? getDirectiveDefinition(callExpr)
+        : Option.of(callExpr)
+            .filter(c => c.arguments.length > 1)
+            .flatMap(c => maybeObjectLiteralExpression(c.arguments[1])))
+        .map(o => Vector.ofIterable(o.properties));
+    const getInitializer = (propName: string) => definitionProps
+        .flatMap(props => objectLiteralGetProperty(propName, props))
+        .flatMap(maybePropertyAssignment)
+        .map(pa => pa.initializer);
+    const controllerClassName = getInitializer("controller")
+        .flatMap(maybeIdentifier)
+        .map(i => i.text);
+
+    // with bindToController, the bindings can be given there instead of in the scope
+    const bindToController = getInitializer("bindToController")
+        .filter(e => e.kind !== ts.SyntaxKind.FalseKeyword);
+    const bindingsExpr = (isDirective
+        ? bindToController
+            .filter(e => maybeObjectLiteralExpression(unwrapCast(e)[0]).isSome())
+            .orElse(getInitializer("scope"))
+        : getInitializer("bindings"))
+        .map(unwrapCast);
+    const bindings = bindingsExpr
+        .flatMap(([e, _]) => maybeObjectLiteralExpression(e))
+        .map(parseBindings)
+        .filter(b => b.length > 0);
+    const castTypeName = bindingsExpr.flatMap(([_, typeName]) => typeName);
+    const typeName = (!isDirective || bindToController.isSome())
+        ? controllerClassName.orElse(castTypeName)
+        : castTypeName;
+    if (!isDirective && typeName.isNone()) {
+        // the bindings of components are only accessible through their
+        // controller class, we can't type them without it.
+        return Option.none<DirectiveBindingsInfo>();
+    }
+    const restrict = isDirective
+        ? definitionProps.flatMap(props => objectLiteralGetStringLiteralField("restrict", props))
+            .getOrElse("EA")
+        : "E";
+    return Option.liftA2((directiveName: string, bindings: DirectiveBinding[]) =>
+                         ({directivePath, directiveName, restrict, typeName, bindings}))(
+                             directiveName, bindings);
+}
+
+/**
+ * @hidden
+ * A filter registered in the project, through `.filter('name', factory)`
+ */
+export interface FilterRegistration {
+    readonly filterPath: string;
+    readonly filterName: string;
+}
+
+// the registrations on a module are often chained:
+// angular.module('app').filter('a', ...).filter('b', ...)
+function isAngularModuleChainCall(callExpr: ts.CallExpression, methodName: string): boolean {
+    return isAngularModuleCall(callExpr, methodName) ||
+        maybePropertyAccessExpression(callExpr.expression)
+            .filter(p => p.name.text === methodName)
+            .flatMap(p => maybeCallExpression(p.expression))
+            .filter(receiver => maybePropertyAccessExpression(receiver.expression)
+                    .filter(rp => isAngularModuleChainCall(receiver, rp.name.text))
+                    .isSome())
+            .isSome();
+}
+
+/**
+ * @hidden
+ * The name and factory of a filter registration
+ * such as `angular.module('app').filter('name', factory)`.
+ * With the array annotation for the dependencies, the factory
+ * is the last element of the array.
+ */
+export function parseFilterRegistration(callExpr: ts.CallExpression)
+    : Option<{filterName: string, factory: ts.Expression}> {
+    if (!isAngularModuleChainCall(callExpr, "filter") || callExpr.arguments.length < 2) {
+        return Option.none<{filterName: string, factory: ts.Expression}>();
+    }
+    const factoryParam = callExpr.arguments[1];
+    const factory = maybeArrayLiteralExpression(factoryParam)
+        .filter(l => l.elements.length > 0)
+        .map(l => l.elements[l.elements.length-1])
+        .getOrElse(factoryParam);
+    return maybeStringLiteral(callExpr.arguments[0])
+        .map(l => ({filterName: l.text, factory}));
+}
+
 /**
  * @hidden
  */
@@ -290,8 +1022,25 @@ export interface ViewInfo {
     readonly fileName: string;
     readonly ngModuleName: Option<string>;
     readonly controllerName: Option<string>;
+    readonly controllerClassName: Option<string>;
     readonly controllerViewInfos: ControllerViewInfo[];
     readonly modelViewInfos: ModelViewInfo[];
+    readonly directiveBindings: DirectiveBindingsInfo[];
+    readonly filterRegistrations: FilterRegistration[];
+    readonly uiRouterStates: UiRouterState[];
+    /**
+     * The classes declared in the file, which modals may use as
+     * controllers without registering them
+     */
+    readonly classNames: string[];
+    /**
+     * The components registered in the file
+     */
+    readonly componentNames: string[];
+    /**
+     * The modals which the file opens with a component
+     */
+    readonly modalComponents: ModalComponent[];
 }
 
 /**
@@ -312,10 +1061,15 @@ export interface ControllerViewConnector {
      * this function will be called.
      * @param node the AST node which matched your specification
      * @param projectPath the path of the project on disk
+     * @param loadProgram gives the typescript program of the project, if you need
+     *     its type checker. The program is built on the first call, which is
+     *     expensive. The node doesn't belong to the program, find the node
+     *     at the same position in the source file of the program.
      * @returns the controller-view connections that you detected for this node,
      *     if any (the empty array if you didn't detect any).
      */
-    getControllerView: (node: ts.Node, projectPath: string) => ControllerViewInfo[];
+    getControllerView: (node: ts.Node, projectPath: string,
+                        loadProgram: () => ts.Program) => ControllerViewInfo[];
 }
 
 /**
@@ -344,14 +1098,27 @@ export interface ModelViewConnector {
 
 const modalOpenViewConnector : ControllerViewConnector = {
     interceptAstNode: ts.SyntaxKind.CallExpression,
-    getControllerView: (node, projectPath) =>
-        parseModalOpen(<ts.CallExpression>node).toVector().toArray()
+    getControllerView: (node, projectPath, loadProgram) =>
+        parseModalOpen(<ts.CallExpression>node, projectPath, loadProgram).toVector().toArray()
 };
 
 const moduleStateViewConnector: ControllerViewConnector = {
+    interceptAstNode: ts.SyntaxKind.ObjectLiteralExpression,
+    getControllerView: (node, projectPath) => {
+        const objLit = <ts.ObjectLiteralExpression>node;
+        const state = parseUiRouterState(objLit);
+        // objects which look like states are recognized even
+        // if they're not given to .state() directly
+        return state.isSome()
+            ? getStateCtrlViewInfos(state.getOrThrow()).toArray()
+            : parseModuleState(objLit).toVector().toArray();
+    }
+};
+
+const routeViewConnector: ControllerViewConnector = {
     interceptAstNode: ts.SyntaxKind.ObjectLiteralExpression,
     getControllerView: (node, projectPath) =>
-        parseModuleState(<ts.ObjectLiteralExpression>node).toVector().toArray()
+        parseNgRoute(<ts.ObjectLiteralExpression>node).toVector().toArray()
 };
 
 const directiveViewConnector: ModelViewConnector = {
@@ -360,13 +1127,20 @@ const directiveViewConnector: ModelViewConnector = {
         parseAngularDirectiveTemplate(filename, <ts.CallExpression>node).toVector().toArray()
 };
 
+const componentViewConnector: ModelViewConnector = {
+    interceptAstNode: ts.SyntaxKind.CallExpression,
+    getModelView: (filename, node, projectPath) =>
+        parseAngularComponent(filename, <ts.CallExpression>node).toVector().toArray()
+};
+
 /**
  * Default set of [[ControllerViewConnector]] which can recognize connections between
  * angular controllers and views from the typescript source.
  * You can give this list in [[ProjectSettings.ctrlViewConnectors]], or you can add
  * your own or provide your own list entirely.
  */
-export const defaultCtrlViewConnectors = [modalOpenViewConnector, moduleStateViewConnector];
+export const defaultCtrlViewConnectors = [
+    modalOpenViewConnector, moduleStateViewConnector, routeViewConnector];
 
 /**
  * Default set of [[ModelViewConnector]] which can recognize connections between
@@ -374,43 +1148,76 @@ export const defaultCtrlViewConnectors = [modalOpenViewConnector, moduleStateVie
  * You can give this list in [[ProjectSettings.modelViewConnectors]], or you can add
  * your own or provide your own list entirely.
  */
-export const defaultModelViewConnectors = [directiveViewConnector];
+export const defaultModelViewConnectors = [directiveViewConnector, componentViewConnector];
 
 /**
  * @hidden
+ * @param loadProgram gives the typescript program of the project,
+ *     which is only built if the type checker is needed.
  */
 export function extractCtrlViewConnsAngularModule(
     fileName: string, webappPath: string,
     ctrlViewConnectors: ControllerViewConnector[],
-    modelViewConnectors: ModelViewConnector[]): Promise<ViewInfo> {
+    modelViewConnectors: ModelViewConnector[],
+    loadProgram: () => ts.Program): Promise<ViewInfo> {
     const sourceFile = ts.createSourceFile(
         fileName, readFileSync(fileName).toString(),
         ts.ScriptTarget.ES2016, /*setParentNodes */ true);
     let ngModuleName = Option.none<string>();
     let controllerName = Option.none<string>();
+    let controllerClassName = Option.none<string>();
     let controllerViewInfos: ControllerViewInfo[] = [];
     let modelViewInfos: ModelViewInfo[] = [];
+    let directiveBindings: DirectiveBindingsInfo[] = [];
+    let filterRegistrations: FilterRegistration[] = [];
+    let uiRouterStates: UiRouterState[] = [];
+    let classNames: string[] = [];
+    let componentNames: string[] = [];
+    let modalComponents: ModalComponent[] = [];
     return new Promise<ViewInfo>((resolve, reject) => {
         function nodeExtractModuleOpenAngularModule(node: ts.Node) {
             if (controllerName.isNone() && node.kind == ts.SyntaxKind.ExpressionStatement) {
                 const mCtrlNgModule = parseAngularModule(<ts.ExpressionStatement>node);
-                ngModuleName = mCtrlNgModule.map(moduleCtrl => moduleCtrl[0]);
-                controllerName = mCtrlNgModule.map(moduleCtrl => moduleCtrl[1]);
+                ngModuleName = mCtrlNgModule.map(moduleCtrl => moduleCtrl.moduleName);
+                controllerName = mCtrlNgModule.map(moduleCtrl => moduleCtrl.controllerName);
+                controllerClassName = mCtrlNgModule.flatMap(moduleCtrl => moduleCtrl.controllerClassName);
             }
             controllerViewInfos = controllerViewInfos.concat(
                 Vector.ofIterable(ctrlViewConnectors)
                     .filter(conn => conn.interceptAstNode === node.kind)
-                    .flatMap(conn => Vector.ofIterable(conn.getControllerView(node, webappPath)))
+                    .flatMap(conn => Vector.ofIterable(conn.getControllerView(node, webappPath, loadProgram)))
                     .toArray());
             modelViewInfos = modelViewInfos.concat(
                 Vector.ofIterable(modelViewConnectors)
                     .filter(conn => conn.interceptAstNode === node.kind)
                     .flatMap(conn => Vector.ofIterable(conn.getModelView(fileName, node, webappPath)))
                     .toArray());
+            if (node.kind === ts.SyntaxKind.CallExpression) {
+                directiveBindings = directiveBindings.concat(
+                    parseDirectiveBindings(fileName, <ts.CallExpression>node).toVector().toArray());
+                filterRegistrations = filterRegistrations.concat(
+                    parseFilterRegistration(<ts.CallExpression>node)
+                        .map(r => ({filterPath: fileName, filterName: r.filterName}))
+                        .toVector().toArray());
+                componentNames = componentNames.concat(
+                    parseComponentName(<ts.CallExpression>node).toVector().toArray());
+                modalComponents = modalComponents.concat(
+                    parseModalComponent(<ts.CallExpression>node, loadProgram).toVector().toArray());
+            }
+            if (node.kind === ts.SyntaxKind.ObjectLiteralExpression) {
+                uiRouterStates = uiRouterStates.concat(
+                    parseUiRouterState(<ts.ObjectLiteralExpression>node).toVector().toArray());
+            }
+            if (node.kind === ts.SyntaxKind.ClassDeclaration) {
+                classNames = classNames.concat(
+                    Option.of((<ts.ClassDeclaration>node).name).map(n => n.text).toVector().toArray());
+            }
             ts.forEachChild(node, nodeExtractModuleOpenAngularModule);
         }
         nodeExtractModuleOpenAngularModule(sourceFile);
-        resolve({fileName, ngModuleName, controllerName, controllerViewInfos, modelViewInfos});
+        resolve({fileName, ngModuleName, controllerName, controllerClassName,
+                 controllerViewInfos, modelViewInfos, directiveBindings, filterRegistrations,
+                 uiRouterStates, classNames, componentNames, modalComponents});
     });
 }
 
@@ -430,17 +1237,131 @@ export interface ControllerScopeInfo {
     readonly typeAliases: string[];
     readonly imports: string[];
     readonly importNames: string[];
+    /**
+     * ES2015 imports, and the names the controller exports, which the
+     * viewtest imports back from the controller (for file-level modules)
+     */
+    readonly moduleImports: ModuleImport[];
+    /**
+     * Whether the controller is a file-level (ES2015) module,
+     * meaning that its top-level declarations are not global.
+     */
+    readonly isFileModule: boolean;
     readonly nonExportedDeclarations: string[];
-    readonly viewFragments: string[];
+    readonly viewFragments: CtrlViewFragment[];
+}
+
+/**
+ * @hidden
+ * An ES2015 import, such as `import {Foo} from "./foo"`.
+ */
+export interface ModuleImport {
+    /**
+     * what is imported, for instance `{Foo}` or `* as foo`
+     */
+    readonly importClause: string;
+    /**
+     * where it's imported from, relative to the controller if it starts with "."
+     */
+    readonly moduleSpecifier: string;
 }
 
-function nodeIsExported(node: ts.Node): boolean {
+/**
+ * @hidden
+ * A view fragment embedded in a controller, along with
+ * its position in the controller source.
+ */
+export interface CtrlViewFragment {
+    readonly source: string;
+    readonly fileName: string;
+    /**
+     * line of the start of the fragment in the controller (1-based)
+     */
+    readonly line: number;
+    /**
+     * column of the start of the fragment in the controller (1-based)
+     */
+    readonly column: number;
+}
+
+function locateViewFragment(node: ts.Node, fragment: string): CtrlViewFragment {
+    // the extractors only give us the text of the fragment. it's normally
+    // the contents of a string literal within the node, so look for it there.
+    const idxInNode = node.getText().indexOf(fragment);
+    const pos = node.getStart() + Math.max(idxInNode, 0);
+    const lineAndChar = node.getSourceFile().getLineAndCharacterOfPosition(pos);
+    return {
+        source: fragment,
+        fileName: node.getSourceFile().fileName,
+        line: lineAndChar.line + 1,
+        column: lineAndChar.character + 1
+    };
+}
+
+/**
+ * @hidden
+ */
+export function nodeIsExported(node: ts.Node): boolean {
     return Option.of(node.modifiers)
         .filter(modifiers => modifiers.some(
             modifier => modifier.kind === ts.SyntaxKind.ExportKeyword))
         .isSome();
 }
 
+function isFileModule(sourceFile: ts.SourceFile): boolean {
+    return sourceFile.statements.some(stmt =>
+        stmt.kind === ts.SyntaxKind.ImportDeclaration ||
+        stmt.kind === ts.SyntaxKind.ExportDeclaration ||
+        stmt.kind === ts.SyntaxKind.ExportAssignment ||
+        (stmt.kind === ts.SyntaxKind.ImportEqualsDeclaration &&
+         (<ts.ImportEqualsDeclaration>stmt).moduleReference.kind ===
+         ts.SyntaxKind.ExternalModuleReference) ||
+        nodeIsExported(stmt));
+}
+
+function importClauseNames(clause: ts.ImportClause): string[] {
+    const bindings = clause.namedBindings;
+    const bindingNames = !bindings ? [] :
+        bindings.kind === ts.SyntaxKind.NamespaceImport
+        ? [(<ts.NamespaceImport>bindings).name.getText()]
+        : (<ts.NamedImports>bindings).elements.map(e => e.name.getText());
+    return (clause.name ? [clause.name.getText()] : []).concat(bindingNames);
+}
+
+/**
+ * names of the top-level declarations exported by a file-level module
+ */
+function exportedDeclarationNames(sourceFile: ts.SourceFile): string[] {
+    const names: string[] = [];
+    const isDefaultExport = (stmt: ts.Node) => Option.of(stmt.modifiers)
+        .filter(modifiers => modifiers.some(
+            modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword))
+        .isSome();
+    sourceFile.statements
+        .filter(stmt => nodeIsExported(stmt) && !isDefaultExport(stmt))
+        .forEach(stmt => {
+        switch (stmt.kind) {
+        case ts.SyntaxKind.InterfaceDeclaration:
+        case ts.SyntaxKind.ClassDeclaration:
+        case ts.SyntaxKind.EnumDeclaration:
+        case ts.SyntaxKind.TypeAliasDeclaration:
+        case ts.SyntaxKind.FunctionDeclaration:
+        case ts.SyntaxKind.ModuleDeclaration:
+            const name = (<ts.DeclarationStatement>stmt).name;
+            if (name && name.getText() !== "Scope") {
+                names.push(name.getText());
+            }
+            break;
+        case ts.SyntaxKind.VariableStatement:
+            (<ts.VariableStatement>stmt).declarationList.declarations
+                .filter(decl => decl.name.kind === ts.SyntaxKind.Identifier)
+                .forEach(decl => names.push(decl.name.getText()));
+            break;
+        }
+    });
+    return names;
+}
+
 /**
  * You can register such an extractor using [[ProjectSettings.ctrlViewFragmentExtractors]].
  * Will be called when parsing typescript files, allows you to tell ng-typeview
@@ -485,26 +1406,41 @@ export function extractControllerScopeInfo(
         let imports:string[] = [];
         let importNames:string[] = [];
         let nonExportedDeclarations:string[] = [];
-        let viewFragments:string[] = [];
+        let viewFragments:CtrlViewFragment[] = [];
+        const fileModule = isFileModule(sourceFile);
+        const moduleImports: ModuleImport[] = [];
+        const exportedNames = fileModule ? exportedDeclarationNames(sourceFile) : [];
+        if (exportedNames.length > 0) {
+            // the scope may refer to types exported by the controller
+            moduleImports.push({
+                importClause: "{" + exportedNames.join(", ") + "}",
+                moduleSpecifier: "./" + parse(fileName).name
+            });
+        }
         function nodeExtractScopeInterface(node: ts.Node) {
             // so that the viewtest file may compile, we must copy
             // in it classes & interfaces that may have been declared
             // privately in the controller. We do limit ourselves to
             // top-level declarations on which the Scope type declaration
             // may depend, that's why we check whether they're under the
-            // module block. if there is no TS module and declarations are
+            // module block (or at the top-level of a file-level module).
+            // if there is no TS module and declarations are
             // toplevel then no need to copy them as they were global anyway.
-            if (node.parent &&
-                node.parent.kind === ts.SyntaxKind.ModuleBlock &&
-                !nodeIsExported(node)) {
-                if (node.kind === ts.SyntaxKind.InterfaceDeclaration) {
-                    const curIntfInfo = parseScopeInterface(<ts.InterfaceDeclaration>node);
-                    if (curIntfInfo.isSome()) {
-                        scopeInfo = curIntfInfo.map(x => x.fst());
-                        scopeTypeParams = curIntfInfo.map(x => x.snd());
-                    } else {
-                        nonExportedDeclarations.push(node.getText());
-                    }
+            const isModuleLevel = node.parent &&
+                (node.parent.kind === ts.SyntaxKind.ModuleBlock ||
+                 (fileModule && node.parent.kind === ts.SyntaxKind.SourceFile));
+            if (isModuleLevel && node.kind === ts.SyntaxKind.InterfaceDeclaration) {
+                // the scope interface may be exported or not
+                const curIntfInfo = parseScopeInterface(<ts.InterfaceDeclaration>node);
+                if (curIntfInfo.isSome()) {
+                    scopeInfo = curIntfInfo.map(x => x.fst());
+                    scopeTypeParams = curIntfInfo.map(x => x.snd());
+                }
+            }
+            if (isModuleLevel && !nodeIsExported(node)) {
+                if (node.kind === ts.SyntaxKind.InterfaceDeclaration &&
+                    (<ts.InterfaceDeclaration>node).name.getText() !== "Scope") {
+                    nonExportedDeclarations.push(node.getText());
                 }
                 if (node.kind === ts.SyntaxKind.ClassDeclaration) {
                     nonExportedDeclarations.push(node.getText());
@@ -531,9 +1467,21 @@ export function extractControllerScopeInfo(
                 imports.push(node.getText());
                 importNames.push((<ts.ImportEqualsDeclaration>node).name.getText());
             }
+            if (node.kind === ts.SyntaxKind.ImportDeclaration) {
+                const importDecl = <ts.ImportDeclaration>node;
+                // imports without clause are only there for side-effects
+                if (importDecl.importClause) {
+                    moduleImports.push({
+                        importClause: importDecl.importClause.getText(),
+                        moduleSpecifier: (<ts.StringLiteral>importDecl.moduleSpecifier).text
+                    });
+                    importNames.push(...importClauseNames(importDecl.importClause));
+                }
+            }
             const ctrlViewFragments = Vector.ofIterable(ctrlViewFragmentExtractors)
                 .filter(extractor => extractor.interceptAstNode === node.kind)
-                .flatMap(extractor => Vector.ofIterable(extractor.getViewFragments(node)));
+                .flatMap(extractor => Vector.ofIterable(extractor.getViewFragments(node)))
+                .map(fragment => locateViewFragment(node, fragment));
             viewFragments = viewFragments.concat(ctrlViewFragments.toArray());
             ts.forEachChild(node, nodeExtractScopeInterface);
         }
@@ -541,6 +1489,7 @@ export function extractControllerScopeInfo(
         resolve({
             tsModuleName: Option.of<string>(tsModuleName),
             scopeInfo, scopeTypeParams, typeAliases, imports, importNames,
+            moduleImports, isFileModule: fileModule,
             nonExportedDeclarations, viewFragments
         });
     });
@@ -0,0 +1,81 @@
+import {ViewSourceLocation} from "./view-parser"
+
+/**
+ * How serious a [[ViewDiagnostic]] is. An error means that a part
+ * of the view could not be checked.
+ */
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * A problem that ng-typeview met while generating the viewtests,
+ * as returned by [[processProject]] and given to [[ProjectSettings.onDiagnostic]].
+ *
+ * The codes reported by ng-typeview are:
+ * - `parse-error`: an expression or directive clause could not be parsed
+ * - `unknown-filter`: an expression applies a filter which is not in
+ *   [[ProjectSettings.ngFilters]]. The filter call is then typed as `any`.
+ * - `mismatched-close-tag`: the closing tag doesn't match the open tag
+ * - `unhandled-tag`: a `ng-` tag that no tag directive handler supports
+ * - `unhandled-attribute`: a `ng-` attribute that no directive handler supports
+ * - `unresolved-include`: the template given to `ng-include` is neither
+ *   a file of the project nor a `<script type="text/ng-template">` of its views
+ * - `controller-not-a-class`: a controller used with the controllerAs syntax
+ *   is not a class, so the expressions using its alias are not checked
+ * - `unresolved-bindings-type`: the type declaring the bindings of a
+ *   directive can't be referred to, so only some of its bindings are checked
+ * - `unknown-controller`: `ng-controller` refers to a controller which is not
+ *   declared in the project, so the expressions within the element are not checked
+ * - `unresolved-scope-type`: the scope type of a controller used through
+ *   `ng-controller` can't be referred to, so the expressions within the
+ *   element are not checked. Also reported for the controllers of the parent
+ *   ui-router states of a view, the view being checked without their scope.
+ * - `regexp-rendering`: a regular expression literal of an expression may
+ *   not be rendered correctly in the viewtest
+ * - `unhandled-expression`: a part of an expression that ng-typeview doesn't
+ *   convert, so the scope accessors are not added to it
+ * - `unknown-component`: a modal is opened with a component which
+ *   is not declared in the project, so the view of the modal is not checked
+ * - `update-failed`: [[watchProject]] could not update the viewtests after
+ *   changes to the project, or the callback given to it failed. The
+ *   diagnostic is given for the project folder.
+ *
+ * Directive handlers can report their own codes through
+ * [[CodegenHelper.reportDiagnostic]].
+ */
+export interface ViewDiagnostic {
+    readonly severity: DiagnosticSeverity;
+    /**
+     * Identifies the kind of problem, for instance `parse-error`
+     */
+    readonly code: string;
+    readonly message: string;
+    /**
+     * The view in which the problem was found (or the controller, for
+     * view fragments embedded in controllers)
+     */
+    readonly fileName: string;
+    /**
+     * The view element (attribute, tag or `{{}}` block) at fault,
+     * undefined if we don't know it.
+     */
+    readonly location?: ViewSourceLocation;
+    /**
+     * The directive (attribute or tag name) whose handler reported the
+     * problem, undefined if the problem doesn't come from a handler.
+     */
+    readonly handler?: string;
+}
+
+/**
+ * Format a [[ViewDiagnostic]] for display.
+ * For instance: `user-list.html:42:13 ng-repeat="user in": error: can't parse... [parse-error]`
+ * @param diagnostic the diagnostic to format
+ * @returns a one-line description of the diagnostic
+ */
+export function formatViewDiagnostic(diagnostic: ViewDiagnostic): string {
+    const position = diagnostic.location
+        ? `${diagnostic.location.fileName}:${diagnostic.location.line}:${diagnostic.location.column} ` +
+            diagnostic.location.snippet
+        : diagnostic.fileName;
+    return `${position}: ${diagnostic.severity}: ${diagnostic.message} [${diagnostic.code}]`;
+}
@@ -0,0 +1,108 @@
+import {Option, Vector} from "prelude.ts";
+
+import {AttributeDirectiveHandler, TagDirectiveHandler} from "./ng-directives"
+import {DirectiveBindingsInfo, DirectiveBinding} from "./controller-parser"
+import {BindingsTypeResolver, BindingsTypeReference, TypeImport,
+        typeReferenceName, createTypeCache} from "./scope-resolver"
+import {CodegenHelper} from "./view-ngexpression-parser"
+import {normalizeTagAttrName} from "./view-parser"
+
+/**
+ * @hidden
+ * The directive handlers checking the values given to the
+ * isolate scope bindings of the directives of the project.
+ */
+export interface DirectiveBindingsHandlers {
+    readonly tagDirectives: TagDirectiveHandler[];
+    readonly attributeDirectives: AttributeDirectiveHandler[];
+    /**
+     * The imports of the bindings types which were resolved so far.
+     * The types are resolved when the directives are first met in views.
+     */
+    readonly getTypeImports: () => TypeImport[];
+}
+
+function bindingSource(bindingsType: Option<BindingsTypeReference>, binding: DirectiveBinding,
+                       val: string, codegenHelpers: CodegenHelper): string {
+    const fieldType = bindingsType.map(ref => `${typeReferenceName(ref.typeRef)}["${binding.name}"]`);
+    switch (binding.mode) {
+    case "@":
+        // the {{}} blocks of the value are checked on their own, but
+        // the value is a string anyway.
+        return fieldType
+            .map(type => codegenHelpers.declareVariable(
+                type, val.indexOf("{{") < 0 ? JSON.stringify(val) : "''"))
+            .getOrElse("");
+    case "&":
+        // without the type we don't know the locals given by the directive
+        return bindingsType
+            .map(ref => codegenHelpers.declareCallback(
+                fieldType.getOrThrow(), ref.callbackLocals[binding.name] || [], val))
+            .getOrElse("");
+    default:
+        return codegenHelpers.declareVariable(fieldType.getOrElse("any"), val);
+    }
+}
+
+/**
+ * @hidden
+ * Generate the tag and attribute directive handlers for the directives of
+ * the project which have isolate scope bindings. They check the values
+ * given to the bindings in the views against the type declaring the
+ * bindings in the directive: the scope interface, or the controller
+ * class for components and directives using `bindToController`.
+ */
+export function getDirectiveBindingsHandlers(directives: Vector<DirectiveBindingsInfo>,
+                                             resolveType: BindingsTypeResolver): DirectiveBindingsHandlers {
+    const typeCache = createTypeCache<Option<BindingsTypeReference>>();
+    const handlers = directives.map(directive => {
+        const getBindingsType = (codegenHelpers: CodegenHelper): Option<BindingsTypeReference> =>
+            typeCache.getOrResolve(`${directive.directivePath}:${directive.directiveName}`, () => {
+                const resolved = resolveType(
+                    directive.directivePath, directive.typeName,
+                    `___${directive.directiveName}Bindings`,
+                    directive.bindings.filter(b => b.mode === "&").map(b => b.name));
+                if (resolved.isNone()) {
+                    codegenHelpers.reportDiagnostic(
+                        "warning", "unresolved-bindings-type",
+                        `${directive.directivePath}: can't refer to the type ` +
+                            `of the bindings of the ${directive.directiveName} directive ` +
+                            "(is it exported?), only some of its bindings are checked");
+                }
+                return {
+                    fromPath: directive.directivePath,
+                    types: resolved,
+                    typeRefs: resolved.map(ref => ref.typeRef).toVector().toArray()
+                };
+            });
+        const attrNames = directive.bindings.map(b => normalizeTagAttrName(b.attrName));
+        const bindingsSource = (attribs: {[type:string]: string}, codegenHelpers: CodegenHelper): string =>
+            directive.bindings
+            .filter(b => attribs[normalizeTagAttrName(b.attrName)] !== undefined)
+            .map(b => bindingSource(getBindingsType(codegenHelpers), b,
+                                    attribs[normalizeTagAttrName(b.attrName)], codegenHelpers))
+            .join("");
+        const name = normalizeTagAttrName(directive.directiveName);
+        const tagHandler = Option.of(directive.restrict)
+            .filter(r => r.indexOf("E") >= 0)
+            .map<TagDirectiveHandler>(_ => ({
+                forTags: [name],
+                canHandleAttributes: attrNames,
+                handleTag: (tag, attribs, codegenHelpers) =>
+                    ({source: bindingsSource(attribs, codegenHelpers)})
+            }));
+        const attrHandler = Option.of(directive.restrict)
+            .filter(r => r.indexOf("A") >= 0)
+            .map<AttributeDirectiveHandler>(_ => ({
+                forAttributes: [name],
+                handleAttribute: (attrName, val, allAttribs, codegenHelpers) =>
+                    ({source: bindingsSource(allAttribs, codegenHelpers)})
+            }));
+        return {tagHandler, attrHandler};
+    });
+    return {
+        tagDirectives: handlers.flatMap(h => h.tagHandler.toVector()).toArray(),
+        attributeDirectives: handlers.flatMap(h => h.attrHandler.toVector()).toArray(),
+        getTypeImports: typeCache.getTypeImports
+    };
+}
@@ -1,7 +1,9 @@
 import * as ts from "typescript";
 import {Option, Vector} from "prelude.ts";
+import * as P from "parsimmon"
 import {maybeVariableStatement, maybeSingleNode,
         maybeObjectLiteralExpression, maybePropertyAssignment} from "./controller-parser"
+import {NgExpression, parseNgExpression} from "./view-ngexpression-parser"
 
 /**
  * An angular filter. They can be registered through the [[ProjectSettings]] setup.
@@ -70,6 +72,38 @@ function filterFilterParams(paramIdx: number, input: string, addScAccessors: (in
         .getOrElse(normal);
 }
 
+/**
+ * special handling for the expression parameter of the 'orderBy' filter.
+ * the fields to sort on can be prefixed by '-' or '+' to sort in
+ * descending or ascending order: `orderBy: ['-date', 'name']`.
+ * We remove the prefixes so that the fields are checked against the
+ * fields of the items.
+ */
+function orderByFilterParams(paramIdx: number, input: string, addScAccessors: (input:string)=>string): string {
+    if (paramIdx != 1) {
+        return addScAccessors(input);
+    }
+    const parsed = parseNgExpression().skip(P.optWhitespace).parse(input);
+    return addScAccessors(parsed.status ? withoutSortPrefixes(parsed.value) : input);
+}
+
+// the string literal of the expression, or the string literals of the
+// array if the expression is an array, without their sort order prefix.
+function withoutSortPrefixes(expr: NgExpression): string {
+    const withoutPrefix = (e: NgExpression) => e.kind === "literal"
+        ? e.text.replace(/^(['"])[-+]/, "$1") : e.text;
+    return expr.kind === "array"
+        ? "[" + expr.elements.map(withoutPrefix).join(", ") + "]"
+        : withoutPrefix(expr);
+}
+
+const limitToParams = "limit: string|number, begin?: string|number";
+
+const dateParams = "format?: string, timezone?: string";
+
+const orderByComparator = "(v1: {value: any, type: string, index: any}, " +
+    "v2: {value: any, type: string, index: any}) => number";
+
 /**
  * Set of angular filters supported out of the box. You can give this list in
  * [[ProjectSettings.ngFilters]], or you can add your own or provide your own
@@ -78,9 +112,18 @@ function filterFilterParams(paramIdx: number, input: string, addScAccessors: (in
 export const defaultNgFilters = [
     new NgFilter("translate", "(key: string) => string"),
     new NgFilter("linky", "(text:string | null, target: '_blank'|'_self'|'_parent'|'_top') => string"),
-    new NgFilter("orderBy", "<T, K extends keyof T>(input:T[], field: K) => T[]"),
+    new NgFilter("orderBy", "<T>(input:T[], " +
+                 "expression?: keyof T | ((v:T) => any) | (keyof T | ((v:T) => any))[], reverse?: boolean, " +
+                 `comparator?: ${orderByComparator}) => T[]`, orderByFilterParams),
     new NgFilter("filter", "<T>(input:T[], p: (((v:T,idx:number,array:T[])=>boolean) | string | { [P in keyof T]?: T[P]; })) => T[]", filterFilterParams),
-    new NgFilter("limitTo", "<T>(input: T[] | string | number, limit: string|number, begin?: string|number) => T[] | string"),
-    new NgFilter("date", "(date:Date|string|number, format?: string, timezone?: string)=>string"),
-    new NgFilter("currency", "(amount:number|string, symbol?: string, fractionSize?:number)=>string")
+    new NgFilter("limitTo", `{<T>(input: T[], ${limitToParams}): T[]; ` +
+                 `(input: string|number, ${limitToParams}): string}`),
+    new NgFilter("date", `{(date: Date|string|number, ${dateParams}): string; ` +
+                 `<T extends null|undefined>(date: T, ${dateParams}): T; ` +
+                 `(date: Date|string|number|null|undefined, ${dateParams}): string|null|undefined}`),
+    new NgFilter("currency", "(amount:number|string, symbol?: string, fractionSize?:number)=>string"),
+    new NgFilter("number", "(input: number|string|null|undefined, fractionSize?: number|string) => string"),
+    new NgFilter("json", "(object: any, spacing?: number) => string"),
+    new NgFilter("lowercase", "(input: string|null|undefined) => string"),
+    new NgFilter("uppercase", "(input: string|null|undefined) => string")
 ];
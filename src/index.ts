@@ -1,11 +1,20 @@
 export {AttributeDirectiveHandler, TagDirectiveHandler, DirectiveResponse,
         defaultTagDirectiveHandlers, defaultAttrDirectiveHandlers} from "./ng-directives"
-export {ControllerViewInfo, ControllerViewConnector, ModelViewConnector,
+export {ControllerViewInfo, InlineTemplate, ControllerViewConnector, ModelViewConnector,
         defaultCtrlViewConnectors, defaultModelViewConnectors,
         CtrlViewFragmentExtractor, defaultCtrlViewFragmentExtractors} from "./controller-parser";
-export {ProjectSettings, processProject} from "./ng-typeview"
+export {ProjectSettings, ProjectReport, processProject, deletePreviouslyGeneratedFiles} from "./ng-typeview"
+export {watchProject, ProjectWatcher} from "./project-watcher"
+export {ConfigFile, defaultConfigFileNames, configToProjectSettings} from "./config"
 export {NgFilterExpression, NgFilterCall, filterExpressionToTypescript,
         ngFilterExpressionToTypeScriptEmbedded,
         ngFilterExpressionToTypeScriptStandalone,
-        parseNgFilterExpression} from "./view-ngexpression-parser"
+        parseNgFilterExpression, parseNgExpression, parseNgStatements,
+        NgExpression, NgLiteral, NgIdentifier, NgMemberAccess, NgElementAccess,
+        NgCall, NgUnaryOperation, NgBinaryOperation, NgConditional, NgAssignment,
+        NgArrayLiteral, NgObjectLiteral, NgObjectProperty, NgParenthesized,
+        NgFilterApplication} from "./view-ngexpression-parser"
 export {NgFilter, defaultNgFilters} from "./filters"
+export {ViewSourceLocation} from "./view-parser"
+export {ViewTypeError, formatViewTypeError} from "./viewtest-compiler"
+export {ViewDiagnostic, DiagnosticSeverity, formatViewDiagnostic} from "./diagnostics"
@@ -0,0 +1,114 @@
+import {Option, HashMap, Vector} from "prelude.ts";
+
+import {AttributeDirectiveHandler} from "./ng-directives"
+import {ViewInfo} from "./controller-parser"
+import {BindingsTypeResolver, ScopeTypeReference, TypeImport,
+        typeReferenceName, createTypeCache} from "./scope-resolver"
+
+/**
+ * @hidden
+ * The directive handler for `ng-controller`, checking the expressions
+ * within the element against the scope of the controller.
+ */
+export interface NgControllerHandler {
+    readonly attributeDirective: AttributeDirectiveHandler;
+    /**
+     * The imports of the types which were resolved so far.
+     * The types are resolved when the controllers are first met in views.
+     */
+    readonly getTypeImports: () => TypeImport[];
+    /**
+     * The files of the controllers which were met in views so far.
+     */
+    readonly getControllerPaths: () => string[];
+    /**
+     * The scope type of a controller of the project, to be referred
+     * to in the viewtests (also used for the scopes of the parent
+     * ui-router states). None if the controller is unknown or its
+     * scope type can't be referred to.
+     */
+    readonly resolveScopeType: (controllerName: string) => Option<string>;
+}
+
+interface ControllerTypes {
+    readonly scopeType: Option<ScopeTypeReference>;
+    readonly classType: Option<ScopeTypeReference>;
+}
+
+/**
+ * @hidden
+ * Generate the `ng-controller` directive handler for the controllers of
+ * the project. The scope of the controller inherits from the scope of the
+ * view, so the expressions within the element are checked against both.
+ * With `ng-controller="UserCtrl as user"`, `user` has the type of the
+ * controller class.
+ * @param controllers the files declaring the controllers, by controller name
+ * @param resolveType finds the scope type and the class of the controllers
+ * @param scopeInterfaceName the configured name of the scope type of a controller, if any
+ */
+export function getNgControllerHandler(controllers: HashMap<string,ViewInfo>,
+                                       resolveType: BindingsTypeResolver,
+                                       scopeInterfaceName: (controllerPath: string) => Option<string>): NgControllerHandler {
+    const typeCache = createTypeCache<ControllerTypes>();
+    const getControllerTypes = (controllerName: string, controller: ViewInfo): ControllerTypes =>
+        typeCache.getOrResolve(controllerName, () => {
+            const importName = "___" + controllerName.replace(/[^\w$]/g, "_");
+            const resolve = (typeName: Option<string>, importedName: string) =>
+                resolveType(controller.fileName, typeName, importedName, []).map(r => r.typeRef);
+            const types = {
+                scopeType: resolve(scopeInterfaceName(controller.fileName), importName + "Scope"),
+                classType: controller.controllerClassName.flatMap(
+                    className => resolve(Option.of(className), importName + "Ctrl"))
+            };
+            return {
+                fromPath: controller.fileName,
+                types,
+                typeRefs: types.scopeType.toVector().appendAll(types.classType.toVector()).toArray()
+            };
+        });
+    const attributeDirective: AttributeDirectiveHandler = {
+        forAttributes: ["ng-controller"],
+        handleAttribute: (attrName, val, allAttribs, codegenHelpers) => {
+            const m = /^\s*([\w$.]+)(?:\s+as\s+([\w$]+))?\s*$/.exec(val);
+            const controllerName = m ? m[1] : val;
+            const alias = Option.of(m ? m[2] : undefined);
+            const controller = controllers.get(controllerName);
+            if (controller.isNone()) {
+                codegenHelpers.reportDiagnostic(
+                    "warning", "unknown-controller",
+                    `unknown controller: ${controllerName}, the expressions ` +
+                        "using its scope are not checked");
+            }
+            const types = controller.map(c => getControllerTypes(controllerName, c));
+            const scopeType = types.flatMap(t => t.scopeType);
+            if (controller.isSome() && scopeType.isNone()) {
+                codegenHelpers.reportDiagnostic(
+                    "warning", "unresolved-scope-type",
+                    `${controller.getOrThrow().fileName}: can't refer to the scope type ` +
+                        `of the ${controllerName} controller (is it exported?), ` +
+                        "the expressions using its scope are not checked");
+            }
+            const parentScope = codegenHelpers.getNewVariableName();
+            // the scope of the controller inherits from the parent scope
+            const scopeSource = `const ${parentScope} = $scope;{` +
+                `const $scope: ${scopeType.map(t => `${typeReferenceName(t)} & typeof ${parentScope}`)
+                    .getOrElse("any")} = <any>${parentScope};`;
+            const aliasSource = alias.map(a => `const ${codegenHelpers.registerVariable(a)}: ${
+                types.flatMap(t => t.classType).map(typeReferenceName).getOrElse("any")} = <any>undefined;`);
+            return {
+                source: scopeSource + aliasSource.getOrElse(""),
+                closeSource: () => "}"
+            };
+        }
+    };
+    return {
+        attributeDirective,
+        getTypeImports: typeCache.getTypeImports,
+        resolveScopeType: controllerName => controllers.get(controllerName)
+            .flatMap(c => getControllerTypes(controllerName, c).scopeType)
+            .map(typeReferenceName),
+        getControllerPaths: () => Vector.ofIterable(typeCache.getResolvedKeys())
+            .flatMap(name => controllers.get(name).toVector())
+            .map(c => c.fileName).toArray()
+    };
+}
@@ -83,7 +83,8 @@ export interface TagDirectiveHandler {
 }
 
 const boolAttrHandler: AttributeDirectiveHandler = {
-    forAttributes: ["ng-required", "ng-disabled", "ng-trim", "ng-checked"],
+    forAttributes: ["ng-required", "ng-disabled", "ng-trim", "ng-checked", "ng-hide",
+                    "ng-readonly", "ng-selected", "ng-open"],
     handleAttribute: (attrName, val, allAttribs, codegenHelpers) =>
         ({ source: codegenHelpers.declareVariable("boolean", val) })
 };
@@ -101,26 +102,105 @@ const boolWithScopeAttrHandler: AttributeDirectiveHandler = {
 };
 
 const anyAttrHandler: AttributeDirectiveHandler = {
-    forAttributes: ["ng-model", "ng-change", "ng-value",
-                    "ng-submit", "ng-class", "ng-style", "ng-init", "ng-grid"],
+    forAttributes: ["ng-change", "ng-value",
+                    "ng-class", "ng-style", "ng-init", "ng-grid",
+                    "ng-true-value", "ng-false-value", "ng-messages", "ng-message-exp"],
     handleAttribute: (attrName, val, allAttribs, codegenHelpers) =>
         ({ source: codegenHelpers.declareVariable("any", val) })
 };
 
-// attributes for which we do nothing at all.
+// the type of the values that the input widgets give to ng-model.
+// we don't know the tag, but only <select> and directives like ui-select
+// support `multiple` without a `type`.
+function ngModelType(allAttribs: {[type:string]: string}): string {
+    const type = (allAttribs["type"] || "").toLowerCase();
+    if (allAttribs["ng-list"] !== undefined) {
+        return "string[]";
+    }
+    if (allAttribs["multiple"] !== undefined && allAttribs["type"] === undefined) {
+        return "any[]";
+    }
+    switch (type) {
+    case "number":
+    case "range":
+        return "number";
+    case "checkbox":
+        // ng-true-value and ng-false-value can give any value
+        return allAttribs["ng-true-value"] === undefined &&
+            allAttribs["ng-false-value"] === undefined ? "boolean" : "any";
+    case "date":
+    case "datetime-local":
+    case "time":
+    case "week":
+    case "month":
+        return "Date";
+    default:
+        return "any";
+    }
+}
+
+// https://docs.angularjs.org/api/ng/directive/ngModel
+// the widget writes to the model, so the expression must be assignable,
+// and accept the values of the widget. With getterSetter, the expression
+// is rather a function which is called with the new value.
+const ngModel: AttributeDirectiveHandler = {
+    forAttributes: ["ng-model"],
+    handleAttribute: (attrName, val, allAttribs, codegenHelpers) => {
+        const type = ngModelType(allAttribs);
+        if (/getterSetter\s*:\s*true/.test(allAttribs["ng-model-options"] || "")) {
+            return { source: codegenHelpers.declareVariable(`(value?: ${type}) => ${type}`, val) };
+        }
+        if (val.length === 0 || val.indexOf("{{") >= 0) {
+            return { source: "" };
+        }
+        // assigning in a function, not to narrow the type of the
+        // model for the rest of the view.
+        const handlerName = codegenHelpers.getNewVariableName();
+        const valueName = codegenHelpers.getNewVariableName();
+        return {
+            source: `const ${handlerName} = (${valueName}: ${type}) => ` +
+                `(${codegenHelpers.addScopeAccessors(val)}) = ${valueName};`
+        };
+    }
+};
+
+// attributes for which we do nothing at all. Their values are not
+// expressions, but literals (ng-list, ng-message) or interpolated
+// strings (ng-href, ng-src, ng-srcset) whose {{}} blocks are
+// checked like in any other attribute.
 const passThroughAttrHandler: AttributeDirectiveHandler = {
-    forAttributes: ["ng-form"],
+    forAttributes: ["ng-form", "ng-href", "ng-src", "ng-srcset", "ng-list",
+                    "ng-cloak", "ng-transclude", "ng-csp", "ng-jq", "ng-message",
+                    "ng-messages-multiple", "ng-messages-include"],
     handleAttribute: (attrName, val, allAttribs, codegenHelpers) => ({ source: ""})
 };
 
+// tags for which we do nothing at all.
+const passThroughTagHandler: TagDirectiveHandler = {
+    canHandleAttributes: [],
+    forTags: ["ng-form", "ng-transclude", "ng-message", "ng-messages-include"],
+    handleTag: (tag, attribs, codegenHelpers) => undefined
+};
+
 const stringAttrHandler: AttributeDirectiveHandler = {
     forAttributes: ["ng-include"],
     handleAttribute: (attrName, val, allAttribs, codegenHelpers) =>
         ({ source: codegenHelpers.declareVariable("string", val) })
 };
 
+// https://docs.angularjs.org/api/ng/directive/ngInclude
+// the element form. ng-typeview checks the included template on its own.
+const ngIncludeTagHandler: TagDirectiveHandler = {
+    canHandleAttributes: [],
+    forTags: ["ng-include"],
+    handleTag: (tag, attribs, codegenHelpers) => ({
+        source: (attribs["src"] !== undefined ? codegenHelpers.declareVariable("string", attribs["src"]) : "") +
+            (attribs["onload"] !== undefined ? codegenHelpers.declareVariable("any", attribs["onload"]) : "")
+    })
+};
+
 const numberAttrHandler: AttributeDirectiveHandler = {
-    forAttributes: ["ng-maxlength"],
+    forAttributes: ["ng-maxlength", "ng-minlength"],
     handleAttribute: (attrName, val, allAttribs, codegenHelpers) =>
         ({ source: codegenHelpers.declareVariable("number", val) })
 };
@@ -133,67 +213,88 @@ const ngBindAttrDirectiveHandler: AttributeDirectiveHandler = {
         }
 };
 
+// https://docs.angularjs.org/api/ng/directive/ngRepeat
+// variable in expression [as alias] [track by tracking_expression]
+// (key, value) in expression [as alias] [track by tracking_expression]
 interface NgRepeatData {
     readonly variable: string;
+    readonly keyVariable?: string;
     readonly expression: NgFilterExpression;
+    readonly alias?: string;
     readonly trackingExpression?: string;
 }
 
+function parseIdentifier(): P.Parser<string> {
+    return P.regexp(/[a-zA-Z_$][\w$]*/);
+}
+
+function parseNgRepeatVariables(): P.Parser<Pick<NgRepeatData, "variable"|"keyVariable">> {
+    return P.seqMap(
+        P.regexp(/\(\s*/).then(parseIdentifier()),
+        P.regexp(/\s*,\s*/).then(parseIdentifier()).skip(P.regexp(/\s*\)/)),
+        (keyVariable, variable) => ({variable, keyVariable}))
+        .or(parseIdentifier().map(variable => ({variable})));
+}
+
 function parseNgRepeat(): P.Parser<NgRepeatData> {
-    return parseAtom()
-        .chain(variable => keyword("in")
-               .then(parseNgFilterExpression())
-               .chain(expression => parseNgOptionsTrackBy().atMost(1)
-                      .map(trackBy => {
-                          const r: NgRepeatData = {
-                              variable, expression,
-                              trackingExpression: trackBy ? trackBy[0] : undefined
-                          };
-                          return r;
-                      })))
+    return P.seqMap(
+        parseNgRepeatVariables().skip(keyword("in")),
+        parseNgFilterExpression(),
+        keyword("as").then(parseIdentifier()).atMost(1),
+        parseNgOptionsTrackBy().atMost(1),
+        (variables, expression, alias, trackBy) => ({
+            ...variables, expression,
+            alias: alias.length > 0 ? alias[0] : undefined,
+            trackingExpression: trackBy.length > 0 ? trackBy[0] : undefined
+        }));
 }
 
 function handleNgRepeat(attrValue: string, codegenHelpers: CodegenHelper): string|null {
     const ngRepeatData = parseNgRepeat().parse(attrValue);
     if (!ngRepeatData.status) {
-        console.warn("failed parsing a ng-repeat clause!");
-        console.warn(attrValue);
-        console.warn(ngRepeatData);
+        codegenHelpers.reportDiagnostic(
+            "error", "parse-error",
+            "can't parse the ng-repeat clause: " + P.formatError(attrValue, ngRepeatData));
         return null;
     }
-
-    const enumerable = ngFilterExpressionToTypeScriptEmbedded(
-        ngRepeatData.value.expression, codegenHelpers);
-
-    // so here we have a hack to be able to support scenarios like
-    // "(k,v) in data" -- if there are no spaces in the expression,
-    // we actually parse it as one, variable name being "(k,v)".
-    // We should fix the parsing but... I just take it as-is then
-    // split in two variables "k" and "v", then hack around the iteration
-    // to make it work the way angular does it.
-    const shouldSplitVar = ngRepeatData.value.variable.startsWith("(") &&
-        ngRepeatData.value.variable.endsWith(")");
-    const keysIfSplit = (x:string) => shouldSplitVar ? `Object.keys(${x})` : x;
-    let splitterExpr = "";
-    if (shouldSplitVar) {
-        const vars = ngRepeatData.value.variable.substring(1, ngRepeatData.value.variable.length-1).split(",");
-        vars.forEach((v,idx) => codegenHelpers.registerVariable(v));
-        let [k,v] = vars;
-        splitterExpr = `const ${k} = curKey; const ${v} = ${enumerable}[curKey];`;
-    }
-    const repeatVarExpr = shouldSplitVar ? "curKey" : codegenHelpers.registerVariable(ngRepeatData.value.variable);
-
-    const source =`angular.forEach(${keysIfSplit(enumerable)}, ${repeatVarExpr} => {` +
+    const {variable, keyVariable, expression, alias, trackingExpression} = ngRepeatData.value;
+
+    const enumerable = ngFilterExpressionToTypeScriptEmbedded(expression, codegenHelpers);
+
+    // the alias is the collection after the filters were applied.
+    // NOTE angular also puts it on the parent scope, but we only
+    // know it within the ng-repeat. It's declared within the loop,
+    // sibling ng-repeats may use the same alias.
+    const collection = alias ? codegenHelpers.getNewVariableName() : enumerable;
+    const collectionExpr = alias ? `const ${collection} = ${enumerable};` : "";
+    const aliasExpr = alias
+        ? `const ${codegenHelpers.registerVariable(alias)} = ${collection};`
+        : "";
+
+    // the angular.forEach typings give us the item type, and the key
+    // type: number for arrays, string for objects.
+    const params = keyVariable
+        ? `(${codegenHelpers.registerVariable(variable)}, ${codegenHelpers.registerVariable(keyVariable)})`
+        : codegenHelpers.registerVariable(variable);
+
+    // typing the booleans explicitly, otherwise typescript would
+    // narrow them to the literal types of their initial values.
+    const source = collectionExpr +
+        `angular.forEach(${collection}, ${params} => {` + aliasExpr +
         `let ${codegenHelpers.registerVariable('$index')} = 0;` +
-        `let ${codegenHelpers.registerVariable('$first')} = true;` +
-        `let ${codegenHelpers.registerVariable('$middle')} = true;` +
-        `let ${codegenHelpers.registerVariable('$last')} = true;` +
-        `let ${codegenHelpers.registerVariable('$even')} = true;` +
-        `let ${codegenHelpers.registerVariable('$odd')} = false;` +
-        `${splitterExpr}` +
-        (ngRepeatData.value.trackingExpression ?
-         `${codegenHelpers.declareVariable('any', ngRepeatData.value.trackingExpression)}` : "");
-    return source;
+        `let ${codegenHelpers.registerVariable('$first')} = <boolean>true;` +
+        `let ${codegenHelpers.registerVariable('$middle')} = <boolean>true;` +
+        `let ${codegenHelpers.registerVariable('$last')} = <boolean>true;` +
+        `let ${codegenHelpers.registerVariable('$even')} = <boolean>true;` +
+        `let ${codegenHelpers.registerVariable('$odd')} = <boolean>false;`;
+    if (!trackingExpression) {
+        return source;
+    }
+    // the tracking expression may hash the items with $id
+    const idExpr = /(^|[^\w$.])\$id\s*\(/.test(trackingExpression)
+        ? `const ${codegenHelpers.registerVariable('$id')} = (value: any) => "";`
+        : "";
+    return source + idExpr + codegenHelpers.declareVariable('any', trackingExpression);
 }
 
 const ngRepeatAttrDirectiveHandler: AttributeDirectiveHandler = {
@@ -296,9 +397,9 @@ const ngOptions: AttributeDirectiveHandler = {
         {
             const ngOptionsData = parseNgOptions().parse(attrValue);
             if (!ngOptionsData.status) {
-                console.warn("failed parsing a ng-options clause!");
-                console.warn(attrValue);
-                console.warn(ngOptionsData);
+                codegenHelpers.reportDiagnostic(
+                    "error", "parse-error",
+                    "can't parse the ng-options clause: " + P.formatError(attrValue, ngOptionsData));
                 return {source: ""};
             }
             const addVar = (v:string|undefined) => (v ? `${codegenHelpers.declareVariable('any', v)}` : "");
@@ -315,13 +416,25 @@ const ngOptions: AttributeDirectiveHandler = {
         }
 };
 
+// the type of $event for the event directives
+const eventTypes: {[attrName:string]: string} = {
+    "ng-click": "MouseEvent", "ng-dblclick": "MouseEvent",
+    "ng-mousedown": "MouseEvent", "ng-mouseup": "MouseEvent",
+    "ng-mouseover": "MouseEvent", "ng-mouseout": "MouseEvent",
+    "ng-mousemove": "MouseEvent", "ng-mouseenter": "MouseEvent",
+    "ng-mouseleave": "MouseEvent",
+    "ng-keydown": "KeyboardEvent", "ng-keyup": "KeyboardEvent",
+    "ng-keypress": "KeyboardEvent",
+    "ng-blur": "FocusEvent", "ng-focus": "FocusEvent",
+    "ng-copy": "ClipboardEvent", "ng-cut": "ClipboardEvent",
+    "ng-paste": "ClipboardEvent",
+    "ng-submit": "Event"
+};
+
 const ngWithEvent: AttributeDirectiveHandler = {
-    forAttributes: ["ng-blur", "ng-mouseenter", "ng-mouseleave", "ng-click"],
+    forAttributes: Object.keys(eventTypes),
     handleAttribute: (attrName, attrValue, allAttribs, codegenHelpers) =>
-        {
-            return { source: `const ${codegenHelpers.getNewVariableName()}: any = (${codegenHelpers.registerVariable('$event')}: any) => ` +
-                     codegenHelpers.addScopeAccessors(attrValue) + ";" };
-        }
+        ({ source: codegenHelpers.declareEventHandler({$event: eventTypes[attrName]}, attrValue) })
 };
 
 const ngModelOptions: AttributeDirectiveHandler = {
@@ -342,6 +455,43 @@ const ngPattern: AttributeDirectiveHandler = {
         }
 };
 
+// https://docs.angularjs.org/api/ng/directive/ngPluralize
+// can be an element or an attribute, the parameters being other attributes.
+function handleNgPluralize(attribs: {[type:string]: string}, codegenHelpers: CodegenHelper): string {
+    // the messages may contain {{}} blocks, which are checked on their own.
+    const declare = (type: string, attrName: string) =>
+        attribs[attrName] !== undefined ? codegenHelpers.declareVariable(type, attribs[attrName]) : "";
+    return declare("number", "count") +
+        declare("{[count: string]: string}", "when") +
+        declare("number", "offset");
+}
+
+const ngPluralizeAttrHandler: AttributeDirectiveHandler = {
+    forAttributes: ["ng-pluralize"],
+    handleAttribute: (attrName, attrValue, allAttribs, codegenHelpers) =>
+        ({ source: handleNgPluralize(allAttribs, codegenHelpers) })
+};
+
+const ngPluralizeTagHandler: TagDirectiveHandler = {
+    canHandleAttributes: [],
+    forTags: ["ng-pluralize"],
+    handleTag: (tag, attribs, codegenHelpers) =>
+        ({ source: handleNgPluralize(attribs, codegenHelpers) })
+};
+
+// https://docs.angularjs.org/api/ngMessages/directive/ngMessages
+// the element forms take the expressions through other attributes.
+const ngMessagesTagHandler: TagDirectiveHandler = {
+    canHandleAttributes: [],
+    forTags: ["ng-messages", "ng-message-exp"],
+    handleTag: (tag, attribs, codegenHelpers) => {
+        const attrName = tag === "ng-messages" ? "for" : "when-exp";
+        return attribs[attrName] !== undefined
+            ? { source: codegenHelpers.declareVariable("any", attribs[attrName]) }
+            : undefined;
+    }
+};
+
 // ng-switch should work on the attribute level, but the spec requires to read
 // multiple attributes at once... Eg "on"
 const ngSwitch: TagDirectiveHandler = {
@@ -467,9 +617,9 @@ const ngUiSelectChoicesTagHandler: TagDirectiveHandler = {
                 const attrValue = attribs[attrName];
                 const selectData = parseNgUiSelectChoicesSelect().parse(attrValue);
                 if (!selectData.status) {
-                    console.warn("failed parsing a ui-select-choices select clause!");
-                    console.warn(attrValue);
-                    console.warn(selectData);
+                    codegenHelpers.reportDiagnostic(
+                        "error", "parse-error",
+                        "can't parse the ui-select-choices select clause: " + P.formatError(attrValue, selectData));
                     return {source: ""};
                 }
                 const enumerable = ngFilterExpressionToTypeScriptEmbedded(
@@ -499,12 +649,12 @@ const ngUiSelectChoicesTagHandler: TagDirectiveHandler = {
  */
 export const defaultAttrDirectiveHandlers =
     [boolAttrHandler, boolWithScopeAttrHandler,
-     anyAttrHandler, stringAttrHandler, numberAttrHandler,
+     anyAttrHandler, ngModel, stringAttrHandler, numberAttrHandler,
      ngBindAttrDirectiveHandler,
      ngRepeatAttrDirectiveHandler, ngRepeatStartAttrDirectiveHandler,
      ngRepeatEndAttrDirectiveHandler,
      ngOptions, ngWithEvent,
-     ngModelOptions, ngPattern, passThroughAttrHandler];
+     ngModelOptions, ngPattern, ngPluralizeAttrHandler, passThroughAttrHandler];
 
 /**
  * Set of angular tag directives supported out of the box. You can give this
@@ -513,4 +663,5 @@ export const defaultAttrDirectiveHandlers =
  */
 export const defaultTagDirectiveHandlers =
     [ngUiSelectDirectiveTagHandler, ngUiSelectChoicesTagHandler,
-    ngSwitch, ngSwitchWhen];
+    ngSwitch, ngSwitchWhen, ngPluralizeTagHandler, ngMessagesTagHandler, ngIncludeTagHandler,
+    passThroughTagHandler];
@@ -1,73 +1,266 @@
-import {writeFileSync, readdirSync, statSync, unlinkSync} from "fs";
+import * as ts from "typescript";
+import {writeFileSync, readFileSync, readdirSync, statSync, unlinkSync, existsSync, mkdirSync} from "fs";
 import {sync} from "glob";
-import {HashMap, Vector} from "prelude.ts";
-import {parse} from "path";
+import {HashMap, HashSet, Vector, Option} from "prelude.ts";
+import {parse, basename, dirname, join, relative} from "path";
 
-import {parseView, listKeepDefined, collectionKeepDefined, requireDefined} from "./view-parser"
+import {parseView, listKeepDefined, collectionKeepDefined, requireDefined,
+        findNgTemplates, ParserInput, TemplateResolver} from "./view-parser"
 import {AttributeDirectiveHandler, TagDirectiveHandler,
         defaultTagDirectiveHandlers, defaultAttrDirectiveHandlers} from "./ng-directives"
 export {AttributeDirectiveHandler, TagDirectiveHandler,
         defaultTagDirectiveHandlers, defaultAttrDirectiveHandlers} from "./ng-directives"
 import {extractControllerScopeInfo, extractCtrlViewConnsAngularModule,
-        ViewInfo, ControllerViewInfo, ControllerScopeInfo,
+        ViewInfo, ControllerViewInfo, ControllerScopeInfo, ModuleImport, UiRouterState,
         ControllerViewConnector, defaultCtrlViewConnectors,
         CtrlViewFragmentExtractor, defaultCtrlViewFragmentExtractors,
         ModelViewConnector, defaultModelViewConnectors} from "./controller-parser"
 import {addScopeAccessors, CodegenHelper} from "./view-ngexpression-parser"
 import {NgFilter, defaultNgFilters} from "./filters"
+import {compileViewtests, generateViewtestsTsconfig,
+        GeneratedViewtest, ViewTypeError} from "./viewtest-compiler"
+import {generateSourceMap} from "./source-map"
+import {ScopeTypeResolver, createScopeTypeResolver, createBindingsTypeResolver,
+        createFilterTypeResolver, FilterTypeResolver, createProgramLoader} from "./scope-resolver"
+import {DirectiveBindingsHandlers, getDirectiveBindingsHandlers} from "./directive-bindings"
+import {NgControllerHandler, getNgControllerHandler} from "./ng-controller"
+import {ViewDiagnostic} from "./diagnostics"
 
 export {ControllerViewInfo} from "./controller-parser";
 
 // we only repeat the imports, type synonyms and custom interfaces
 // if there is a module, because otherwise those are dumped in the
 // global namespace anyway
-function wrapInModule(moduleName: string, scopeInfo: ControllerScopeInfo,
-                      contents: string): string {
-    return "module " + moduleName + " {\n" +
-        scopeInfo.imports.join("\n") + "\n" +
+function declarationsHeader(scopeInfo: ControllerScopeInfo): string {
+    return scopeInfo.imports.join("\n") + "\n" +
         scopeInfo.typeAliases.join("\n") + "\n" +
-        scopeInfo.nonExportedDeclarations.join("\n") + "\n" +
-        contents +
-        "}\n";
+        scopeInfo.nonExportedDeclarations.join("\n") + "\n";
+}
+
+function moduleHeader(moduleName: string, scopeInfo: ControllerScopeInfo): string {
+    return "module " + moduleName + " {\n" + declarationsHeader(scopeInfo);
+}
+
+// a relative import specifier from a file, made relative to another file
+function rebaseSpecifier(fromPath: string, toPath: string, moduleSpecifier: string): string {
+    if (!moduleSpecifier.startsWith(".")) {
+        // node module
+        return moduleSpecifier;
+    }
+    const relPath = relative(dirname(toPath), join(dirname(fromPath), moduleSpecifier))
+        .replace(/\\/g, "/");
+    return relPath.startsWith(".") ? relPath : "./" + relPath;
+}
+
+// ES2015 imports must be at the top-level of the viewtest, and the relative
+// ones must be rewritten since the viewtest may not be in the controller's folder.
+function moduleImportsHeader(controllerPath: string, viewtestPath: string,
+                             moduleImports: ModuleImport[], isFileModule: boolean): string {
+    const imports = moduleImports.map(
+        imp => `import ${imp.importClause} from "${
+            rebaseSpecifier(controllerPath, viewtestPath, imp.moduleSpecifier)}";\n`);
+    // a file-level module controller => the viewtest must also be a module,
+    // otherwise its declarations would be global.
+    return imports.length > 0 || !isFileModule
+        ? imports.join("")
+        : "export {};\n";
 }
 
 function getViewTestFilename(ctrlFname: string, viewFname: string): string {
     return `${ctrlFname}_${viewFname}_viewtest.ts`;
 }
 
-async function processControllerView(prjSettings: ProjectSettings,
-    controllerPath: string, viewPath: string, ngFilters: NgFilter[],
+/**
+ * @hidden
+ * The path of the viewtest generated for a controller & view pair:
+ * next to the controller, or in the matching folder of
+ * [[ProjectSettings.outputDir]] if it is set.
+ */
+export function getViewTestPath(prjSettings: ProjectSettings,
+                                controllerPath: string, viewPath: string): string {
+    const ctrlDir = parse(controllerPath).dir;
+    const outputDir = prjSettings.outputDir
+        ? join(prjSettings.outputDir, relative(prjSettings.path, ctrlDir))
+        : ctrlDir;
+    // putting both controller & view name in the output, as one controller
+    // may be used for several views.
+    return outputDir + "/" +
+        getViewTestFilename(parse(controllerPath).name, parse(viewPath).name);
+}
+
+function ensureFolderExists(folder: string): void {
+    if (!existsSync(folder)) {
+        ensureFolderExists(dirname(folder));
+        mkdirSync(folder);
+    }
+}
+
+/**
+ * @hidden
+ * A controller (or directive) & a view to generate a viewtest for.
+ */
+export interface ControllerViewSource {
+    readonly controllerPath: string;
+    readonly viewPath: string;
+    /**
+     * The alias of the controller in the view, for the controllerAs syntax
+     */
+    readonly controllerAs: Option<string>;
+    /**
+     * The name of the controller class, if the controller is a class
+     */
+    readonly controllerClassName: Option<string>;
+    /**
+     * For the views of ui-router states, the controllers of the
+     * parent states, whose scopes the scope of the view inherits from.
+     */
+    readonly parentControllers: Vector<string>;
+    /**
+     * The values resolved by the ngRoute route of the view, or by its
+     * ui-router state and the ancestors of the state, which the view
+     * reads through `$resolve`.
+     */
+    readonly resolveNames: Vector<string>;
+    /**
+     * The template of the view, if it's given inline in a typescript file
+     */
+    readonly template: Option<ParserInput>;
+}
+
+// the type of `$resolve` for the view, the resolved values being
+// typed as any. Names which aren't identifiers are quoted.
+function resolveLocalsType(names: Vector<string>): string {
+    const fields = names.map(name => (/^[\w$]+$/.test(name) ? name : JSON.stringify(name)) + ": any");
+    return `{$resolve: {${fields.mkString(", ")}}}`;
+}
+
+// whether the source refers to the name. `\b` doesn't work for names
+// containing `$`, so we check the characters around the name instead.
+function mentionsName(source: string, name: string): boolean {
+    const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp("(^|[^\\w$])" + escapedName + "($|[^\\w$])").test(source);
+}
+
+/**
+ * @hidden
+ * Generate the viewtest for a controller & view pair.
+ * @returns the viewtest which was written, none if the controller has no scope
+ */
+export async function processControllerView(prjSettings: ProjectSettings,
+    source: ControllerViewSource, ngFilters: NgFilter[],
     tagDirectives: TagDirectiveHandler[],
-    attributeDirectives: AttributeDirectiveHandler[]) {
+    attributeDirectives: AttributeDirectiveHandler[],
+    scopeTypeResolver?: ScopeTypeResolver,
+    directiveBindings?: DirectiveBindingsHandlers,
+    resolveTemplate?: TemplateResolver,
+    ngController?: NgControllerHandler): Promise<Option<GeneratedViewtest>> {
+    const {controllerPath, viewPath} = source;
     const scopeContents: ControllerScopeInfo = await extractControllerScopeInfo(
         controllerPath, prjSettings.ctrlViewFragmentExtractors);
-    if (scopeContents.scopeInfo.isNone()) {
+    const scopeTypeRef = Option.of(scopeTypeResolver).flatMap(
+        resolve => resolve(controllerPath, getScopeInterfaceName(prjSettings, controllerPath)));
+    if (scopeContents.scopeInfo.isNone() && scopeTypeRef.isNone() &&
+        source.controllerAs.isNone() && source.parentControllers.isEmpty()) {
         // no point of writing anything if there is no scope block
-        return;
+        return Option.none<GeneratedViewtest>();
     }
+    // with the controllerAs syntax, the view refers to the controller through
+    // its alias, which we declare with the type of the controller class.
+    const controllerAsParam = source.controllerAs
+        .map(alias => `${alias}: ${source.controllerClassName.getOrElse("any")}, `)
+        .getOrElse("");
+    const controllerDiagnostics = source.controllerAs
+        .filter(_ => source.controllerClassName.isNone())
+        .map<ViewDiagnostic>(alias => ({
+            severity: "warning", code: "controller-not-a-class",
+            message: `${controllerPath}: the controller is not a class, ` +
+                `can't check the expressions using ${alias}`,
+            fileName: viewPath
+        }))
+        .toVector();
+    const parentScopeTypes = source.parentControllers.map(controllerName => ({
+        controllerName,
+        scopeType: Option.of(ngController).flatMap(c => c.resolveScopeType(controllerName))
+    }));
+    const parentScopeDiagnostics = parentScopeTypes
+        .filter(p => p.scopeType.isNone())
+        .map<ViewDiagnostic>(p => ({
+            severity: "warning", code: "unresolved-scope-type",
+            message: `can't refer to the scope type of the ${p.controllerName} controller ` +
+                "of a parent state (is it exported?), the view is checked without its scope",
+            fileName: viewPath
+        }));
+    // the view may be inline in a typescript file, or a template declared in another view
+    const view = source.template.orElse(Option.of(resolveTemplate)
+        .flatMap(resolve => resolve(relative(prjSettings.path, viewPath))));
     const viewExprs = await parseView(
         prjSettings.resolveImportsAsNonScope || false,
-        viewPath, scopeContents.viewFragments, scopeContents.importNames,
-        Vector.ofIterable(tagDirectives),
-        Vector.ofIterable(attributeDirectives),
-        Vector.ofIterable(ngFilters));
-    const pathInfo = parse(controllerPath);
-    const viewPathInfo = parse(viewPath);
-    // putting both controller & view name in the output, as one controller
-    // may be used for several views.
-    const outputFname = pathInfo.dir + "/" +
-        getViewTestFilename(pathInfo.name, viewPathInfo.name);
-    const moduleWrap = (x:string) => scopeContents.tsModuleName
-        .map(n => wrapInModule(n, scopeContents, x))
-        .getOrElse(x);
+        viewPath, scopeContents.viewFragments,
+        scopeContents.importNames, source.controllerAs.toVector().toArray(),
+        Vector.ofIterable(tagDirectives).appendAll(
+            Option.of(directiveBindings).map(b => b.tagDirectives).getOrElse([])),
+        Vector.ofIterable(attributeDirectives).appendAll(
+            Option.of(directiveBindings).map(b => b.attributeDirectives).getOrElse([]))
+            .appendAll(Option.of(ngController).map(c => c.attributeDirective).toVector()),
+        Vector.ofIterable(ngFilters), resolveTemplate, view.getOrUndefined());
+    const viewFiles = Vector.of(view.map(v => v.fileName).getOrElse(viewPath))
+        .appendAll(viewExprs.includedFiles);
+    const diagnostics = controllerDiagnostics
+        .appendAll(parentScopeDiagnostics)
+        .appendAll(viewExprs.diagnostics);
+    diagnostics.forEach(d => prjSettings.onDiagnostic && prjSettings.onDiagnostic(d));
+    const outputFname = getViewTestPath(prjSettings, controllerPath, viewPath);
+    ensureFolderExists(dirname(outputFname));
     const filterParams = ngFilters.map(f => `f__${f.name}:${f.type}`).join(",\n    ")
-    const typeParams = scopeContents.scopeTypeParams.getOrElse("");
-    writeFileSync(outputFname, moduleWrap(
-            scopeContents.scopeInfo.getOrThrow() +
-            `\n\nfunction ___f${typeParams}($scope: Scope${
-                typeParams}, ${filterParams}) {\n` +
-            viewExprs +
-            "\n}\n") + "\n");
+    const typeParams = scopeTypeRef.map(ref => ref.typeParams)
+        .orElse(scopeContents.scopeTypeParams).getOrElse("");
+    // the scope of the views of ui-router states also has
+    // the fields of the scopes of the parent states
+    const scopeType = Vector.of(scopeTypeRef.map(ref => ref.typeName)
+                                .orElse(scopeContents.scopeInfo.map(_ => "Scope"))
+                                .getOrElse("{}") + typeParams)
+        .appendAll(parentScopeTypes.flatMap(p => p.scopeType.toVector()))
+        .appendAll(Option.of(source.resolveNames).filter(n => !n.isEmpty())
+                   .map(resolveLocalsType).toVector())
+        .mkString(" & ");
+    // the bindings types of the directives used in the view,
+    // and the types of the controllers used through ng-controller
+    const bindingsImports = Option.of(directiveBindings)
+        .map(b => b.getTypeImports()).getOrElse([])
+        .concat(Option.of(ngController).map(c => c.getTypeImports()).getOrElse([]))
+        .filter(imp => mentionsName(viewExprs.source + scopeType, imp.typeName))
+        .map(imp => ({
+            importClause: imp.moduleImport.importClause,
+            moduleSpecifier: rebaseSpecifier(
+                imp.fromPath, controllerPath, imp.moduleImport.moduleSpecifier)
+        }));
+    // when the scope type is resolved, refer to it instead of copying it
+    const moduleImports = scopeContents.moduleImports.concat(
+        scopeTypeRef.flatMap(ref => ref.moduleImport).toVector().toArray(),
+        bindingsImports);
+    const header = moduleImportsHeader(
+        controllerPath, outputFname, moduleImports, scopeContents.isFileModule) +
+        scopeContents.tsModuleName
+        .map(n => moduleHeader(n, scopeContents))
+        .getOrElse(scopeContents.isFileModule ? declarationsHeader(scopeContents) : "") +
+        (scopeTypeRef.isSome() ? "" : scopeContents.scopeInfo.getOrElse("")) +
+        `\n\nfunction ___f${typeParams}($scope: ${scopeType}, ${controllerAsParam}${filterParams}) {\n`;
+    const footer = "\n}\n" +
+        (scopeContents.tsModuleName.isSome() ? "}\n" : "") + "\n";
+    const mappings = viewExprs.mappings.map(m => ({
+        start: header.length + m.start,
+        end: header.length + m.end,
+        location: m.location
+    }));
+    const contents = header + viewExprs.source + footer;
+    if (prjSettings.sourceMaps) {
+        writeFileSync(outputFname + ".map", generateSourceMap(outputFname, contents, mappings));
+        writeFileSync(outputFname, contents +
+                      `//# sourceMappingURL=${basename(outputFname)}.map\n`);
+    } else {
+        writeFileSync(outputFname, contents);
+    }
+    return Option.of({fileName: outputFname, mappings, diagnostics, viewFiles});
 }
 
 /**
@@ -151,75 +344,403 @@ export interface ProjectSettings {
      * at all possible.
      */
     resolveImportsAsNonScope?: boolean;
+    /**
+     * When enabled (disabled by default), once the viewtests are generated,
+     * ng-typeview compiles them in-process with the typescript compiler,
+     * along with the rest of the project (using the `tsconfig.json` in
+     * the project folder if there is one), and [[processProject]] returns
+     * the type errors found, as [[ViewTypeError]].
+     * The errors are reported against the original view file, line and column,
+     * and the attribute or `{{}}` block from the view which failed to type-check.
+     * That way you don't need to run `tsc` separately, and then find out which
+     * view expression the generated code for an error came from.
+     */
+    compileViewtests?: boolean;
+    /**
+     * When enabled (disabled by default), ng-typeview writes a v3 source map
+     * next to each viewtest (`.map` file), relating the generated statements
+     * to the view elements they come from (or to the controller, for view
+     * fragments found through [[ctrlViewFragmentExtractors]]). This allows your
+     * editor or tooling to jump from an error in a viewtest to the view.
+     */
+    sourceMaps?: boolean;
+    /**
+     * By default the viewtests are written next to the controllers.
+     * If you set this folder, they are written there instead, in subfolders
+     * mirroring the layout of the project folder. ng-typeview also writes a
+     * `tsconfig.json` in that folder, listing the files of the project (and
+     * extending the project's `tsconfig.json` if there is one), so that the
+     * viewtests can be compiled standalone: `tsc -p <outputDir>`.
+     */
+    outputDir?: string;
+    /**
+     * By default ng-typeview copies the text of the `Scope` interface of the
+     * controllers (and the declarations it may depend on) in the viewtests.
+     * That doesn't work if the scope interface extends interfaces from other
+     * files, or is named differently.
+     * When enabled (disabled by default), ng-typeview instead builds a
+     * typescript program for the project (using the `tsconfig.json` in the
+     * project folder if there is one), and the viewtests refer to the scope
+     * type of the controllers: it's found through the type of the `$scope`
+     * parameter in the controller, or its name can be given through
+     * [[scopeInterfaceNames]]. It must be exported if it's in a module.
+     * If the scope type can't be referred to, ng-typeview falls back to
+     * copying the `Scope` interface.
+     * The filters registered in the project are also typed through that
+     * program, otherwise they're typed as `(...args: any[]) => any`.
+     */
+    resolveScopeTypes?: boolean;
+    /**
+     * The name of the scope interface for controllers which don't name it
+     * `Scope`, and for which it can't be inferred from the type of their
+     * `$scope` parameter. The keys are the controller paths, relative
+     * to the project folder. Requires [[resolveScopeTypes]].
+     */
+    scopeInterfaceNames?: {[controllerPath: string]: string};
+    /**
+     * Called with each problem met while generating the viewtests (for
+     * instance an expression which can't be parsed), as it's found.
+     * The diagnostics are also returned by [[processProject]]; this hook
+     * allows you to fail your build on some codes for instance.
+     */
+    onDiagnostic?: (diagnostic: ViewDiagnostic) => void;
 }
 
-function deletePreviouslyGeneratedFiles(prjSettings: ProjectSettings): void {
-    const files = sync(prjSettings.path + "/**/" + getViewTestFilename("*", "*"),
-                       {nodir:true, ignore: prjSettings.blacklistedPaths});
+/**
+ * The outcome of [[processProject]].
+ */
+export interface ProjectReport {
+    /**
+     * The type errors found in the views if [[ProjectSettings.compileViewtests]]
+     * is enabled, the empty list otherwise.
+     */
+    readonly typeErrors: ViewTypeError[];
+    /**
+     * The problems met while generating the viewtests
+     */
+    readonly diagnostics: ViewDiagnostic[];
+}
+
+function getScopeInterfaceName(prjSettings: ProjectSettings, controllerPath: string): Option<string> {
+    return Option.of(prjSettings.scopeInterfaceNames)
+        .flatMap(names => Option.of(
+            names[relative(prjSettings.path, controllerPath).replace(/\\/g, "/")]));
+}
+
+/**
+ * Delete the viewtest files (and their source maps) which ng-typeview
+ * previously generated in the project folder, or in the
+ * [[ProjectSettings.outputDir]] (along with the `tsconfig.json`) if it is set.
+ * [[processProject]] calls this before generating the viewtests.
+ */
+export function deletePreviouslyGeneratedFiles(prjSettings: ProjectSettings): void {
+    const viewtestsPattern = "/**/" + getViewTestFilename("*", "*") + "?(.map)";
+    const files = prjSettings.outputDir
+        ? sync(prjSettings.outputDir + viewtestsPattern, {nodir:true})
+            .concat(sync(prjSettings.outputDir + "/tsconfig.json"))
+        : sync(prjSettings.path + viewtestsPattern,
+               {nodir:true, ignore: prjSettings.blacklistedPaths});
     files.forEach(f => unlinkSync(f));
 }
 
 /**
- * Will go through the views and controllers in the project folder and
- * generate viewtest typescript files to ascertain type-safety of the views.
- * NOTE: The function returns a promise but is not fully async: a good part of its
- * runtime is spend running synchronous functions.
+ * @hidden
+ * List the javascript & typescript files of the project.
  */
-export async function processProject(prjSettings: ProjectSettings): Promise<any> {
-    deletePreviouslyGeneratedFiles(prjSettings);
-    const files = sync(prjSettings.path + "/**/*.@(js|ts)",
-                       {nodir:true, ignore: prjSettings.blacklistedPaths});
-    const viewInfos = await Promise.all(
-        files.map(f => extractCtrlViewConnsAngularModule(
-            f, prjSettings.path,
-            prjSettings.ctrlViewConnectors, prjSettings.modelViewConnectors)));
+export function listProjectFiles(prjSettings: ProjectSettings): string[] {
+    // skip viewtests which may remain next to the controllers
+    // from runs without outputDir
+    return sync(prjSettings.path + "/**/*.@(js|ts)",
+                {nodir:true, ignore: prjSettings.blacklistedPaths.concat(
+                    ["**/" + getViewTestFilename("*", "*")],
+                    prjSettings.outputDir ? [prjSettings.outputDir + "/**"] : [])});
+}
+
+/**
+ * @hidden
+ * The handler of the ng-controller directive, for the controllers of the project.
+ */
+export function getProjectNgController(prjSettings: ProjectSettings, viewInfos: Vector<ViewInfo>,
+                                       loadProgram: () => ts.Program): NgControllerHandler {
+    return getNgControllerHandler(
+        viewInfos
+            .filter(vi => vi.controllerName.isSome())
+            // the types can only be found in the TS.
+            .filter(vi => vi.fileName.toLowerCase().endsWith(".ts"))
+            .toMap(vi => [vi.controllerName.getOrThrow(), vi]),
+        createBindingsTypeResolver(loadProgram),
+        controllerPath => getScopeInterfaceName(prjSettings, controllerPath));
+}
+
+/**
+ * @hidden
+ * Find the templates declared in the views of the project
+ * through `<script type="text/ng-template" id="...">`.
+ * @returns the templates, by id
+ */
+export function getProjectTemplates(prjSettings: ProjectSettings): HashMap<string,ParserInput> {
+    return Vector.ofIterable(sync(prjSettings.path + "/**/*.html",
+                                  {nodir:true, ignore: prjSettings.blacklistedPaths}))
+        .flatMap(fileName => findNgTemplates(fileName, readFileSync(fileName).toString()))
+        .toMap(t => t);
+}
+
+/**
+ * @hidden
+ * Find the templates given to `ng-include`, `templateUrl` and so on:
+ * the templates declared in the views first, then the files of the project.
+ */
+export function getTemplateResolver(prjSettings: ProjectSettings,
+                                    templates: HashMap<string,ParserInput>): TemplateResolver {
+    return url => {
+        const template = templates.get(url);
+        if (template.isSome()) {
+            return template;
+        }
+        const fileName = prjSettings.path + "/" + url;
+        return existsSync(fileName)
+            ? Option.of({fileName, contents: readFileSync(fileName).toString(), line: 1, column: 1})
+            : Option.none<ParserInput>();
+    };
+}
+
+/**
+ * @hidden
+ * The scope type resolver for the project files
+ * if [[ProjectSettings.resolveScopeTypes]] is enabled.
+ */
+export function getScopeTypeResolver(prjSettings: ProjectSettings,
+                                     loadProgram: () => ts.Program): ScopeTypeResolver|undefined {
+    return prjSettings.resolveScopeTypes
+        ? createScopeTypeResolver(loadProgram)
+        : undefined;
+}
+
+/**
+ * @hidden
+ * The directive handlers checking the values given in the views to the
+ * isolate scope bindings of the directives of the project.
+ */
+export function getProjectDirectiveBindings(viewInfos: Vector<ViewInfo>,
+                                            loadProgram: () => ts.Program): DirectiveBindingsHandlers {
+    return getDirectiveBindingsHandlers(
+        viewInfos
+            // we may get both the original TS & the compiled JS,
+            // the types can only be found in the TS.
+            .filter(vi => vi.fileName.toLowerCase().endsWith(".ts"))
+            .flatMap(vi => Vector.ofIterable(vi.directiveBindings)),
+        createBindingsTypeResolver(loadProgram));
+}
+
+/**
+ * @hidden
+ * The filters to check the views with: those of [[ProjectSettings.ngFilters]],
+ * and the filters registered in the project through `.filter('name', factory)`,
+ * typed after the function returned by their factory if
+ * [[ProjectSettings.resolveScopeTypes]] is enabled. The filters of the
+ * settings take precedence.
+ */
+export function getProjectNgFilters(prjSettings: ProjectSettings, viewInfos: Vector<ViewInfo>,
+                                    loadProgram: () => ts.Program): NgFilter[] {
+    // building the typescript program is expensive
+    const resolveType: FilterTypeResolver = prjSettings.resolveScopeTypes
+        ? createFilterTypeResolver(loadProgram)
+        : _ => Option.none<string>();
+    const discovered = viewInfos
+        .flatMap(vi => Vector.ofIterable(vi.filterRegistrations))
+        .filter(r => !prjSettings.ngFilters.some(f => f.name === r.filterName))
+        // we may get both the original TS & the compiled JS,
+        // the types can only be found in the TS.
+        .sortOn(r => r.filterPath.toLowerCase().endsWith(".ts") ? 0 : 1)
+        .distinctBy(r => r.filterName)
+        .map(r => new NgFilter(
+            r.filterName,
+            resolveType(r.filterPath, r.filterName).getOrElse("(...args: any[]) => any")));
+    return prjSettings.ngFilters.concat(discovered.toArray());
+}
+
+/**
+ * @hidden
+ * The problems found in the project files rather than in the views:
+ * the modals opened with a component which the project doesn't declare.
+ * They are given to [[ProjectSettings.onDiagnostic]].
+ */
+export function getProjectDiagnostics(prjSettings: ProjectSettings,
+                                      viewInfos: Vector<ViewInfo>): Vector<ViewDiagnostic> {
+    const componentNames = HashSet.ofIterable(
+        viewInfos.flatMap(vi => Vector.ofIterable(vi.componentNames)));
+    const diagnostics = viewInfos.flatMap(
+        vi => Vector.ofIterable(vi.modalComponents)
+            .filter(c => !componentNames.contains(c.componentName))
+            .map<ViewDiagnostic>(c => ({
+                severity: "warning", code: "unknown-component",
+                message: `unknown component: ${c.componentName}, the view of the modal is not checked`,
+                fileName: vi.fileName,
+                location: {fileName: vi.fileName, line: c.line, column: c.column, snippet: c.snippet}
+            })));
+    diagnostics.forEach(d => prjSettings.onDiagnostic && prjSettings.onDiagnostic(d));
+    return diagnostics;
+}
+
+/**
+ * @hidden
+ * Write the `tsconfig.json` of the [[ProjectSettings.outputDir]] if it is set,
+ * then compile the viewtests if [[ProjectSettings.compileViewtests]] is enabled.
+ * @param projectDiagnostics the problems found in the project files, see [[getProjectDiagnostics]]
+ */
+export function finishViewtests(prjSettings: ProjectSettings, files: string[],
+                                viewtests: Vector<GeneratedViewtest>,
+                                projectDiagnostics: Vector<ViewDiagnostic>): ProjectReport {
+    if (prjSettings.outputDir) {
+        ensureFolderExists(prjSettings.outputDir);
+        writeFileSync(join(prjSettings.outputDir, "tsconfig.json"),
+                      generateViewtestsTsconfig(prjSettings.path, files, prjSettings.outputDir));
+    }
+    // with an output folder, compile through its tsconfig.json, to make
+    // sure that it works standalone.
+    const typeErrors = prjSettings.compileViewtests
+        ? compileViewtests(prjSettings.outputDir || prjSettings.path, files, viewtests)
+        : [];
+    return {
+        typeErrors,
+        diagnostics: projectDiagnostics.appendAll(viewtests.flatMap(vt => vt.diagnostics)).toArray()
+    };
+}
+
+// the ancestors of a ui-router state, nearest first
+function getStateAncestors(states: HashMap<string,UiRouterState>,
+                           parent: Option<string>): Vector<UiRouterState> {
+    let ancestors = Vector.empty<UiRouterState>();
+    let current = parent.flatMap(name => states.get(name));
+    // the parents could be declared in a loop
+    while (current.isSome() && !ancestors.anyMatch(a => a.name === current.getOrThrow().name)) {
+        ancestors = ancestors.append(current.getOrThrow());
+        current = current.getOrThrow().parent.flatMap(name => states.get(name));
+    }
+    return ancestors;
+}
+
+// A view named `detail@parent` is rendered in the template of the
+// `parent` state (`detail@` in the root template), other views in
+// the template of the parent of their state. The view inherits the
+// scopes of that state and of its ancestors, which are the scopes of
+// the controllers of their views, and sees the values that its own
+// state and the ancestors of that state resolve.
+function getStateInheritance(states: HashMap<string,UiRouterState>, cvi: ControllerViewInfo)
+    : {parentControllers: Vector<string>, resolveNames: Vector<string>} {
+    const state = Option.of(cvi.uiRouterState).flatMap(name => states.get(name));
+    const viewName = Option.of(cvi.uiRouterView).getOrElse("");
+    const renderedIn = viewName.indexOf("@") >= 0
+        ? Option.of(viewName.substring(viewName.indexOf("@") + 1)).filter(s => s.length > 0)
+        : state.flatMap(s => s.parent);
+    return {
+        parentControllers: getStateAncestors(states, renderedIn)
+            .flatMap(s => Vector.ofIterable(s.views).mapOption(v => v.controllerName))
+            .distinctBy(c => c),
+        // ngRoute routes give the values they resolve directly
+        resolveNames: Vector.ofIterable(cvi.resolve || []).appendAll(
+            state.toVector()
+                .appendAll(getStateAncestors(states, state.flatMap(s => s.parent)))
+                .flatMap(s => Vector.ofIterable(s.resolve)))
+            .distinctBy(r => r)
+    };
+}
+
+/**
+ * @hidden
+ * Find out, from the connections found in the project files, which
+ * controller (or directive) files hold the scope of which views.
+ */
+export function getControllerViewSources(
+    prjSettings: ProjectSettings, viewInfos: Vector<ViewInfo>): Vector<ControllerViewSource> {
     const viewFilenameToControllerNames: HashMap<string,Vector<ControllerViewInfo>> =
-        Vector.ofIterable(viewInfos)
+        viewInfos
         .flatMap(vi => Vector.ofIterable(vi.controllerViewInfos))
         .appendAll(prjSettings.extraCtrlViewConnections)
         .groupBy(cvi => cvi.viewPath);
-    const controllerNameToFilename =
-        Vector.ofIterable(viewInfos)
+    const controllerNameToViewInfo =
+        viewInfos
         .filter(vi => vi.controllerName.isSome())
      		// JS files are not going to have a scope interface
      		// definition so they're not helpful. Also, we can
      		// get twice the same file: original TS & compiled JS.
      		// => keep only the original TS in that case.
 			  .filter(vi => vi.fileName.toLowerCase().endsWith(".ts"))
-        .toMap(vi => [vi.controllerName.getOrThrow(), vi.fileName]);
-    const viewFilenameToCtrlFilenamesViewConns =
+        .toMap(vi => [vi.controllerName.getOrThrow(), vi]);
+    // modals may give the controller as a class, which
+    // doesn't need to be registered as a controller
+    const classNameToControllerPath =
+        viewInfos
+        .filter(vi => vi.fileName.toLowerCase().endsWith(".ts"))
+        .flatMap(vi => Vector.ofIterable(vi.classNames).map<[string,string]>(c => [c, vi.fileName]))
+        .toMap(c => c);
+    const states = viewInfos
+        .flatMap(vi => Vector.ofIterable(vi.uiRouterStates))
+        .toMap(state => [state.name, state]);
+    const viewFilenameToSourcesViewConns =
         viewFilenameToControllerNames
-        .map<string,Vector<string>>(
+        .map<string,Vector<ControllerViewSource>>(
             (viewFname,ctrlViewInfos) =>
-                [viewFname, collectionKeepDefined(
-                    ctrlViewInfos.map(cvi => controllerNameToFilename.get(cvi.controllerName).getOrUndefined()))]);
-    const viewFilenameToCtrlFilenamesModelConns =
-        Vector.ofIterable(viewInfos)
+                [viewFname, ctrlViewInfos.flatMap(cvi => controllerNameToViewInfo.get(cvi.controllerName)
+                    .map(vi => ({controllerPath: vi.fileName, controllerClassName: vi.controllerClassName}))
+                    .orElse(classNameToControllerPath.get(cvi.controllerName)
+                            .map(controllerPath => ({controllerPath, controllerClassName: Option.of(cvi.controllerName)})))
+                    .map(ctrl => ({
+                        ...ctrl,
+                        viewPath: prjSettings.path + "/" + viewFname,
+                        controllerAs: Option.of(cvi.controllerAs),
+                        template: Option.of(cvi.template),
+                        ...getStateInheritance(states, cvi)
+                    })).toVector())]);
+    const viewFilenameToSourcesModelConns =
+        viewInfos
         .flatMap(vi => Vector.ofIterable(vi.modelViewInfos))
         .groupBy(mvi => mvi.viewPath)
-        .mapValues(mvis => mvis.map(mvi => mvi.modelPath));
-    const viewFilenameToCtrlFilenames = viewFilenameToCtrlFilenamesViewConns.mergeWith(
-        viewFilenameToCtrlFilenamesModelConns, (views1, views2) => views1.appendAll(views2));
-    return Promise.all(viewFilenameToCtrlFilenames.toVector().map(
-        ([viewName, ctrlNames]) => Promise.all(ctrlNames.map(
-            ctrlName => processControllerView(prjSettings,
-                ctrlName, prjSettings.path + "/" + viewName, prjSettings.ngFilters,
-                prjSettings.tagDirectives,
-                prjSettings.attributeDirectives)).toArray())).toArray());
-}
-
-try {
-    processProject({
-        path: process.argv[2],
-        blacklistedPaths: process.argv.slice(3),
-        ngFilters: defaultNgFilters,
-        ctrlViewConnectors: defaultCtrlViewConnectors,
-        modelViewConnectors: defaultModelViewConnectors,
-        extraCtrlViewConnections: [],
-        tagDirectives: defaultTagDirectiveHandlers,
-        attributeDirectives: defaultAttrDirectiveHandlers,
-        ctrlViewFragmentExtractors: defaultCtrlViewFragmentExtractors
-    });
-} catch (e) {
-    console.log(e);
+        .map<string,Vector<ControllerViewSource>>((viewFname, mvis) => [viewFname, mvis.map(mvi => ({
+            controllerPath: mvi.modelPath,
+            viewPath: prjSettings.path + "/" + viewFname,
+            controllerAs: Option.of(mvi.controllerAs),
+            controllerClassName: Option.of(mvi.controllerClassName),
+            parentControllers: Vector.empty<string>(),
+            resolveNames: Vector.empty<string>(),
+            template: Option.none<ParserInput>()
+        }))]);
+    return viewFilenameToSourcesViewConns.mergeWith(
+        viewFilenameToSourcesModelConns, (views1, views2) => views1.appendAll(views2))
+        .toVector()
+        .flatMap(([_, sources]) => sources);
+}
+
+/**
+ * Will go through the views and controllers in the project folder and
+ * generate viewtest typescript files to ascertain type-safety of the views.
+ * NOTE: The function returns a promise but is not fully async: a good part of its
+ * runtime is spend running synchronous functions.
+ * @returns the problems met while generating the viewtests, and the type errors
+ *     found in the views if [[ProjectSettings.compileViewtests]] is enabled.
+ */
+export async function processProject(prjSettings: ProjectSettings): Promise<ProjectReport> {
+    deletePreviouslyGeneratedFiles(prjSettings);
+    const files = listProjectFiles(prjSettings);
+    const loadProgram = createProgramLoader(prjSettings.path, files);
+    const viewInfos = await Promise.all(
+        files.map(f => extractCtrlViewConnsAngularModule(
+            f, prjSettings.path,
+            prjSettings.ctrlViewConnectors, prjSettings.modelViewConnectors, loadProgram)));
+    const sources = getControllerViewSources(prjSettings, Vector.ofIterable(viewInfos));
+    const scopeTypeResolver = getScopeTypeResolver(prjSettings, loadProgram);
+    const directiveBindings = getProjectDirectiveBindings(Vector.ofIterable(viewInfos), loadProgram);
+    const ngFilters = getProjectNgFilters(prjSettings, Vector.ofIterable(viewInfos), loadProgram);
+    const resolveTemplate = getTemplateResolver(prjSettings, getProjectTemplates(prjSettings));
+    const ngController = getProjectNgController(prjSettings, Vector.ofIterable(viewInfos), loadProgram);
+    const viewtests = await Promise.all(sources.map(
+        source => processControllerView(prjSettings,
+            source, ngFilters,
+            prjSettings.tagDirectives,
+            prjSettings.attributeDirectives, scopeTypeResolver, directiveBindings,
+            resolveTemplate, ngController)).toArray());
+    return finishViewtests(
+        prjSettings, files,
+        Vector.ofIterable(viewtests).flatMap(vt => vt.toVector()),
+        getProjectDiagnostics(prjSettings, Vector.ofIterable(viewInfos)));
 }
@@ -0,0 +1,320 @@
+import {watch, FSWatcher, existsSync, statSync, unlinkSync} from "fs";
+import {sync} from "glob";
+import * as minimatch from "minimatch";
+import {normalize} from "path";
+import * as ts from "typescript";
+import {HashMap, HashSet, Vector, Option} from "prelude.ts";
+
+import {ProjectSettings, deletePreviouslyGeneratedFiles, listProjectFiles, finishViewtests,
+        getScopeTypeResolver, getProjectDirectiveBindings, getProjectNgFilters,
+        getControllerViewSources, getViewTestPath, processControllerView,
+        getProjectTemplates, getTemplateResolver, getProjectNgController,
+        getProjectDiagnostics, ControllerViewSource, ProjectReport} from "./ng-typeview"
+import {extractCtrlViewConnsAngularModule, ViewInfo} from "./controller-parser"
+import {GeneratedViewtest} from "./viewtest-compiler"
+import {ViewDiagnostic} from "./diagnostics"
+import {createProgramLoader} from "./scope-resolver"
+
+/**
+ * A running [[watchProject]].
+ */
+export interface ProjectWatcher {
+    /**
+     * Regenerate the viewtests affected by changes to these files
+     * (controllers, directives or views, which may have been modified,
+     * created or deleted). The watcher calls this on its own when it gets
+     * file system events; you can call it if you get change
+     * notifications through other means (your build tool for instance).
+     * File names are expected in the same form as the files under
+     * [[ProjectSettings.path]], for instance `webapp/js/user-ctrl.ts`.
+     * @returns the problems met while generating the viewtests, and the type
+     *     errors found in the views if [[ProjectSettings.compileViewtests]] is enabled.
+     */
+    update(fileNames: string[]): Promise<ProjectReport>;
+    /**
+     * Stop watching the project folder. The file changes which weren't
+     * processed yet are dropped, and the updates which were queued are
+     * rejected with an error, like the updates requested afterwards.
+     * @returns a promise resolved when the running update, if any,
+     *     is over: after that the viewtests are not modified anymore.
+     */
+    close(): Promise<void>;
+}
+
+// editors tend to write files in several steps
+const debounceDelayMs = 100;
+
+function isViewtestFile(fileName: string): boolean {
+    return /_viewtest\.ts(\.map)?$/.test(fileName);
+}
+
+function isProjectFile(fileName: string): boolean {
+    return /\.(js|ts)$/i.test(fileName);
+}
+
+function isFolder(path: string): boolean {
+    return existsSync(path) && statSync(path).isDirectory();
+}
+
+/**
+ * Generate the viewtests for the project (like [[processProject]]), then
+ * watch the project folder and, when a controller, directive or view
+ * changes, regenerate only the viewtests it affects. Viewtests for
+ * controller-view connections which disappeared are deleted.
+ * The controller-view connections are kept in memory, so that only the
+ * files which changed are parsed again.
+ * @param prjSettings the project settings
+ * @param onUpdate called after the initial generation and after each
+ *     update triggered by file changes, with the problems met while
+ *     generating the viewtests, and the type errors found in the views
+ *     if [[ProjectSettings.compileViewtests]] is enabled. If an update
+ *     fails, the report has an `update-failed` diagnostic. If the
+ *     callback throws for an update triggered by file changes, an
+ *     `update-failed` diagnostic is given to [[ProjectSettings.onDiagnostic]].
+ * @returns the watcher, which you can close to stop watching.
+ */
+export async function watchProject(
+    prjSettings: ProjectSettings,
+    onUpdate?: (report: ProjectReport) => void): Promise<ProjectWatcher> {
+
+    // the generated files are not watched
+    const ignoredPaths = prjSettings.blacklistedPaths.concat(
+        prjSettings.outputDir ? [prjSettings.outputDir + "/**"] : []);
+
+    const extractViewInfo = (fileName: string, loadProgram: () => ts.Program) =>
+        extractCtrlViewConnsAngularModule(
+            fileName, prjSettings.path,
+            prjSettings.ctrlViewConnectors, prjSettings.modelViewConnectors, loadProgram);
+
+    // project files (by normalized path) => the connections they declare
+    let viewInfos = HashMap.empty<string,ViewInfo>();
+    // viewtest path => what it was generated from, and the controllers
+    // the view uses through ng-controller or its parent states
+    let viewtests = HashMap.empty<string,{source: ControllerViewSource, viewtest: Option<GeneratedViewtest>,
+                                          ngControllerPaths: string[]}>();
+    // the controllers used in views through ng-controller (normalized paths)
+    let ngControllerPaths = HashSet.empty<string>();
+    // the views connected to controllers or directives, the templates
+    // they include and the views declaring templates (normalized paths)
+    let viewPaths = HashSet.empty<string>();
+
+    const syncViewtests = async (isAffected: (source: ControllerViewSource, viewtestPath: string) => boolean): Promise<ProjectReport> => {
+        const sources = getControllerViewSources(prjSettings, Vector.ofIterable(viewInfos.valueIterable()))
+            .toMap(src => [getViewTestPath(prjSettings, src.controllerPath, src.viewPath), src]);
+        viewtests.filter(viewtestPath => !sources.get(viewtestPath).isSome())
+            .keySet().toVector().forEach(viewtestPath => {
+                [viewtestPath, viewtestPath + ".map"]
+                    .filter(existsSync)
+                    .forEach(f => unlinkSync(f));
+                viewtests = viewtests.remove(viewtestPath);
+            });
+        // the connection may also have changed in another file than
+        // the controller (for instance its controllerAs alias, or the
+        // parent ui-router states)
+        const isUnchanged = (viewtestPath: string, src: ControllerViewSource) =>
+            viewtests.get(viewtestPath)
+                .filter(vt => vt.source.controllerAs.equals(src.controllerAs) &&
+                        vt.source.controllerClassName.equals(src.controllerClassName) &&
+                        vt.source.parentControllers.equals(src.parentControllers) &&
+                        vt.source.resolveNames.equals(src.resolveNames))
+                .isSome();
+        const toGenerate = sources.filter(
+            (viewtestPath, src) => !isUnchanged(viewtestPath, src) || isAffected(src, viewtestPath));
+        const files = Vector.ofIterable(viewInfos.valueIterable()).map(vi => vi.fileName).toArray();
+        // the program must be rebuilt since files changed
+        const loadProgram = createProgramLoader(prjSettings.path, files);
+        const scopeTypeResolver = getScopeTypeResolver(prjSettings, loadProgram);
+        const directiveBindings = getProjectDirectiveBindings(
+            Vector.ofIterable(viewInfos.valueIterable()), loadProgram);
+        const ngFilters = getProjectNgFilters(
+            prjSettings, Vector.ofIterable(viewInfos.valueIterable()), loadProgram);
+        const templates = getProjectTemplates(prjSettings);
+        const resolveTemplate = getTemplateResolver(prjSettings, templates);
+        const generated = await Promise.all(toGenerate.toVector().map(([viewtestPath, source]) => {
+            // a handler for each view, to know which controllers the view uses
+            const ngController = getProjectNgController(
+                prjSettings, Vector.ofIterable(viewInfos.valueIterable()), loadProgram);
+            return processControllerView(
+                prjSettings, source, ngFilters,
+                prjSettings.tagDirectives, prjSettings.attributeDirectives,
+                scopeTypeResolver, directiveBindings, resolveTemplate, ngController)
+                .then(viewtest => ({viewtestPath, source, viewtest,
+                                    ngControllerPaths: ngController.getControllerPaths()}));
+        }).toArray());
+        generated.forEach(g => {
+            viewtests = viewtests.put(g.viewtestPath, {
+                source: g.source, viewtest: g.viewtest, ngControllerPaths: g.ngControllerPaths});
+        });
+        ngControllerPaths = HashSet.ofIterable(
+            Vector.ofIterable(viewtests.valueIterable())
+                .flatMap(vt => Vector.ofIterable(vt.ngControllerPaths))
+                .map(normalize));
+        viewPaths = HashSet.ofIterable(
+            sources.toVector().map(([_, src]) => src.viewPath)
+                .appendAll(templates.toVector().map(([_, template]) => template.fileName))
+                .appendAll(Vector.ofIterable(viewtests.valueIterable())
+                           .flatMap(vt => vt.viewtest.toVector())
+                           .flatMap(vt => vt.viewFiles))
+                .map(normalize));
+        return finishViewtests(
+            prjSettings, files,
+            Vector.ofIterable(viewtests.valueIterable()).flatMap(vt => vt.viewtest.toVector()),
+            getProjectDiagnostics(prjSettings, Vector.ofIterable(viewInfos.valueIterable())));
+    };
+
+    let closed = false;
+
+    // deleted or blacklisted files are not listed
+    const isListed = (fileName: string) => existsSync(fileName) && !isFolder(fileName) &&
+        !ignoredPaths.some(pattern => minimatch(fileName, pattern));
+
+    const processChanges = async (fileNames: string[]): Promise<ProjectReport> => {
+        if (closed) {
+            throw new Error("the project watcher is closed");
+        }
+        const changed = Vector.ofIterable(fileNames)
+            .filter(f => !isViewtestFile(f))
+            .distinctBy(normalize);
+        changed.filter(f => !existsSync(f)).forEach(f => {
+            // a deleted folder takes its files along
+            viewInfos = viewInfos.filter(path => !path.startsWith(normalize(f) + "/"));
+        });
+        // any view may use a directive which has bindings, a filter,
+        // or a controller through ng-controller or a parent state
+        let bindingsChanged = false;
+        // the program of the project files after the changes
+        const loadProgram = createProgramLoader(
+            prjSettings.path,
+            Vector.ofIterable(viewInfos.valueIterable()).map(vi => vi.fileName)
+                .appendAll(changed.filter(isProjectFile))
+                .distinctBy(normalize)
+                .filter(isListed)
+                .toArray());
+        const hasBindings = (fileName: string) => ngControllerPaths.contains(normalize(fileName)) ||
+            viewInfos.get(normalize(fileName))
+            .filter(vi => vi.directiveBindings.length > 0 || vi.filterRegistrations.length > 0)
+            .isSome();
+        for (const fileName of changed.filter(isProjectFile).toArray()) {
+            bindingsChanged = bindingsChanged || hasBindings(fileName);
+            viewInfos = isListed(fileName)
+                ? viewInfos.put(normalize(fileName), await extractViewInfo(fileName, loadProgram))
+                : viewInfos.remove(normalize(fileName));
+            bindingsChanged = bindingsChanged || hasBindings(fileName);
+        }
+        const changedPaths = HashSet.ofIterable(changed.map(normalize));
+        // the view may also be a template declared in another view, and include templates
+        const viewFilesChanged = (viewtestPath: string) => viewtests.get(viewtestPath)
+            .flatMap(vt => vt.viewtest)
+            .filter(vt => vt.viewFiles.anyMatch(f => changedPaths.contains(normalize(f))))
+            .isSome();
+        return syncViewtests((src, viewtestPath) => bindingsChanged ||
+            changedPaths.contains(normalize(src.controllerPath)) ||
+            changedPaths.contains(normalize(src.viewPath)) ||
+            viewFilesChanged(viewtestPath));
+    };
+
+    // process the updates one after the other
+    let updateQueue: Promise<any> = Promise.resolve();
+    const update = (fileNames: string[]): Promise<ProjectReport> => {
+        const result = updateQueue.then(() => processChanges(fileNames));
+        updateQueue = result.catch(() => undefined);
+        return result;
+    };
+
+    deletePreviouslyGeneratedFiles(prjSettings);
+    const files = listProjectFiles(prjSettings);
+    const initialLoadProgram = createProgramLoader(prjSettings.path, files);
+    const initialViewInfos = await Promise.all(files.map(f => extractViewInfo(f, initialLoadProgram)));
+    initialViewInfos.forEach(vi => viewInfos = viewInfos.put(normalize(vi.fileName), vi));
+    const initialReport = await syncViewtests(_ => true);
+    if (onUpdate) {
+        onUpdate(initialReport);
+    }
+
+    // other files in the project folder are not interesting
+    const isRelevant = (path: string) =>
+        isProjectFile(path) || viewPaths.contains(normalize(path)) ||
+        viewInfos.anyMatch(fileName => fileName.startsWith(normalize(path) + "/"));
+
+    const watchers: FSWatcher[] = [];
+    let watchedFolders = HashSet.empty<string>();
+    let pendingFiles: string[] = [];
+    let pendingTimer: NodeJS.Timer|undefined = undefined;
+    const flushPendingFiles = () => {
+        const fileNames = pendingFiles;
+        pendingFiles = [];
+        pendingTimer = undefined;
+        const reportFailure = (message: string): ViewDiagnostic => {
+            const diagnostic: ViewDiagnostic = {
+                severity: "error",
+                code: "update-failed",
+                message: `${message} for the changes of ${fileNames.join(", ")}`,
+                fileName: prjSettings.path
+            };
+            if (prjSettings.onDiagnostic) {
+                prjSettings.onDiagnostic(diagnostic);
+            }
+            return diagnostic;
+        };
+        update(fileNames)
+            .then(report => {
+                if (onUpdate && !closed) {
+                    onUpdate(report);
+                }
+            }, e => {
+                // the queued updates are rejected once the watcher is closed
+                if (!closed) {
+                    const diagnostic = reportFailure(`can't update the viewtests: ${e}`);
+                    if (onUpdate) {
+                        onUpdate({typeErrors: [], diagnostics: [diagnostic]});
+                    }
+                }
+            })
+            // there's nobody to reject for the updates triggered by file changes
+            .catch(e => reportFailure(`the update callback failed: ${e}`));
+    };
+    const watchFolder = (folder: string) => {
+        watchedFolders = watchedFolders.add(normalize(folder));
+        const watcher = watch(folder, (event, fileName) => {
+            if (!fileName || isViewtestFile(fileName)) {
+                return;
+            }
+            const path = folder + fileName;
+            if (isFolder(path)) {
+                if (watchedFolders.contains(normalize(path + "/"))) {
+                    return;
+                }
+                // a folder was created or moved in the project
+                sync(path + "/**/", {ignore: ignoredPaths})
+                    .filter(f => !watchedFolders.contains(normalize(f)))
+                    .forEach(watchFolder);
+                pendingFiles.push(...sync(path + "/**/*.@(js|ts)",
+                                          {nodir: true, ignore: ignoredPaths}));
+            } else if (isRelevant(path)) {
+                pendingFiles.push(path);
+            } else {
+                return;
+            }
+            if (pendingTimer) {
+                clearTimeout(pendingTimer);
+            }
+            pendingTimer = setTimeout(flushPendingFiles, debounceDelayMs);
+        });
+        // the folder was deleted
+        watcher.on("error", () => watcher.close());
+        watchers.push(watcher);
+    };
+    sync(prjSettings.path + "/**/", {ignore: ignoredPaths}).forEach(watchFolder);
+
+    return {
+        update,
+        close: () => {
+            closed = true;
+            if (pendingTimer) {
+                clearTimeout(pendingTimer);
+            }
+            watchers.forEach(w => w.close());
+            return updateQueue;
+        }
+    };
+}
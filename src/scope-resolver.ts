@@ -0,0 +1,376 @@
+import * as ts from "typescript";
+import {relative, dirname} from "path";
+import {Option, HashMap} from "prelude.ts";
+
+import {ModuleImport, parseFilterRegistration, nodeIsExported} from "./controller-parser"
+import {getProgramSettings} from "./viewtest-compiler"
+
+/**
+ * @hidden
+ * How a viewtest can refer to the scope type of a controller,
+ * instead of copying its declaration.
+ */
+export interface ScopeTypeReference {
+    /**
+     * The import the viewtest needs to access the scope
+     * type, if it is declared in a file-level module.
+     */
+    readonly moduleImport: Option<ModuleImport>;
+    /**
+     * The name through which the viewtest can refer to the scope type
+     */
+    readonly typeName: string;
+    /**
+     * type parameters for the scope, like "<T0,T1>" or ""
+     */
+    readonly typeParams: string;
+}
+
+/**
+ * @hidden
+ * Find the reference to the scope type of a controller.
+ * @param controllerPath the controller file
+ * @param scopeInterfaceName the name of the scope type if it's configured,
+ *     otherwise it's inferred from the type of the `$scope` parameter in the
+ *     controller, `Scope` being the default.
+ */
+export type ScopeTypeResolver = (controllerPath: string, scopeInterfaceName: Option<string>)
+    => Option<ScopeTypeReference>;
+
+// the name under which the viewtest imports the scope type
+const importedScopeName = "___Scope";
+
+function findNode(node: ts.Node, predicate: (node: ts.Node) => boolean): Option<ts.Node> {
+    if (predicate(node)) {
+        return Option.of(node);
+    }
+    let result = Option.none<ts.Node>();
+    ts.forEachChild(node, child => {
+        if (result.isNone()) {
+            result = findNode(child, predicate);
+        }
+    });
+    return result;
+}
+
+const typeDeclarationKinds = [
+    ts.SyntaxKind.InterfaceDeclaration, ts.SyntaxKind.TypeAliasDeclaration,
+    ts.SyntaxKind.ClassDeclaration];
+
+// the identifier naming the scope type in the controller, either a
+// declaration, or a type reference (for instance to an imported type)
+function findScopeTypeName(sourceFile: ts.SourceFile, scopeInterfaceName: Option<string>): Option<ts.Node> {
+    if (scopeInterfaceName.isNone()) {
+        const scopeParamType = findNode(sourceFile, node =>
+            node.kind === ts.SyntaxKind.Parameter &&
+                (<ts.ParameterDeclaration>node).name.getText() === "$scope" &&
+                Option.of((<ts.ParameterDeclaration>node).type)
+                    .filter(t => t.kind === ts.SyntaxKind.TypeReference)
+                    .isSome())
+            .map(param => (<ts.TypeReferenceNode>(<ts.ParameterDeclaration>param).type).typeName)
+            .map(typeName => typeName.kind === ts.SyntaxKind.QualifiedName ?
+                 (<ts.QualifiedName>typeName).right : typeName);
+        if (scopeParamType.isSome()) {
+            return scopeParamType;
+        }
+    }
+    const name = scopeInterfaceName.getOrElse("Scope");
+    return findNode(sourceFile, node =>
+        (typeDeclarationKinds.indexOf(node.kind) >= 0 &&
+         (<ts.DeclarationStatement>node).name !== undefined &&
+         (<ts.DeclarationStatement>node).name!.getText() === name) ||
+        (node.kind === ts.SyntaxKind.TypeReference &&
+         (<ts.TypeReferenceNode>node).typeName.getText() === name))
+        .map(node => node.kind === ts.SyntaxKind.TypeReference ?
+             (<ts.TypeReferenceNode>node).typeName : (<ts.DeclarationStatement>node).name!);
+}
+
+// for a declaration in a namespace, all the levels must be
+// exported for the declaration to be accessible from the viewtest.
+function isAccessibleFromNamespace(declaration: ts.Node): boolean {
+    let node: ts.Node|undefined = declaration;
+    while (node && node.parent && node.parent.kind !== ts.SyntaxKind.SourceFile) {
+        if (node.parent.kind === ts.SyntaxKind.ModuleBlock && !nodeIsExported(node)) {
+            return false;
+        }
+        node = node.parent;
+    }
+    return true;
+}
+
+function typeParamsInfo(declaration: ts.Node): string {
+    return Option.of((<ts.InterfaceDeclaration>declaration).typeParameters)
+        .filter(p => p.length > 0)
+        .map(p => "<" + p.map((_,idx)=> "T" + idx).join(", ") + ">")
+        .getOrElse("");
+}
+
+function importSpecifier(controllerPath: string, declarationFile: string): string {
+    const relPath = relative(dirname(controllerPath), declarationFile)
+        .replace(/\\/g, "/")
+        .replace(/(\.d)?\.ts$/, "");
+    return relPath.startsWith(".") ? relPath : "./" + relPath;
+}
+
+function getTypeSymbol(checker: ts.TypeChecker, typeName: ts.Node): Option<ts.Symbol> {
+    return Option.of(checker.getSymbolAtLocation(typeName))
+        .map(s => (s.flags & ts.SymbolFlags.Alias) ? checker.getAliasedSymbol(s) : s)
+        .filter(s => s.declarations !== undefined && s.declarations.length > 0);
+}
+
+function resolveTypeReference(checker: ts.TypeChecker, controllerPath: string,
+                              symbol: ts.Symbol, importedName: string): Option<ScopeTypeReference> {
+    const decl = symbol.declarations![0];
+    const typeParams = typeParamsInfo(decl);
+    const declFile = decl.getSourceFile();
+    if (ts.isExternalModule(declFile)) {
+        if (!decl.parent || decl.parent.kind !== ts.SyntaxKind.SourceFile || !nodeIsExported(decl)) {
+            return Option.none<ScopeTypeReference>();
+        }
+        return Option.of({
+            moduleImport: Option.of({
+                importClause: `{${symbol.name} as ${importedName}}`,
+                moduleSpecifier: importSpecifier(controllerPath, declFile.fileName)
+            }),
+            typeName: importedName,
+            typeParams
+        });
+    }
+    if (!isAccessibleFromNamespace(decl)) {
+        return Option.none<ScopeTypeReference>();
+    }
+    return Option.of({
+        moduleImport: Option.none<ModuleImport>(),
+        typeName: checker.getFullyQualifiedName(symbol),
+        typeParams
+    });
+}
+
+// the names of the fields of the first parameter of a function
+// field of the type, for instance `user` for `onSelect: (locals: {user: User}) => void`.
+function callbackLocals(checker: ts.TypeChecker, symbol: ts.Symbol, fieldName: string): string[] {
+    const decl = symbol.declarations![0];
+    return Option.of(checker.getPropertyOfType(checker.getDeclaredTypeOfSymbol(symbol), fieldName))
+        .map(field => checker.getNonNullableType(checker.getTypeOfSymbolAtLocation(field, decl)))
+        .flatMap(fieldType => Option.of(checker.getSignaturesOfType(fieldType, ts.SignatureKind.Call)[0]))
+        .flatMap(signature => Option.of(signature.parameters[0]))
+        .map(param => checker.getPropertiesOfType(checker.getTypeOfSymbolAtLocation(param, decl))
+             .map(p => p.name))
+        .getOrElse([]);
+}
+
+/**
+ * @hidden
+ * Build the typescript program of the project the first
+ * time it's needed, then always return that program.
+ */
+export function createProgramLoader(projectPath: string, projectFiles: string[]): () => ts.Program {
+    let programCache: ts.Program|undefined = undefined;
+    return () => {
+        if (!programCache) {
+            const {rootNames, options} = getProgramSettings(projectPath, projectFiles);
+            programCache = ts.createProgram(rootNames, options);
+        }
+        return programCache;
+    };
+}
+
+/**
+ * @hidden
+ * Resolve the scope types of the controllers through the type checker.
+ * The program is built on the first call of the resolver.
+ */
+export function createScopeTypeResolver(loadProgram: () => ts.Program): ScopeTypeResolver {
+    return (controllerPath, scopeInterfaceName) => {
+        const program = loadProgram();
+        const checker = program.getTypeChecker();
+        return Option.of(program.getSourceFile(controllerPath))
+            .flatMap(sourceFile => findScopeTypeName(sourceFile, scopeInterfaceName))
+            .flatMap(typeName => getTypeSymbol(checker, typeName))
+            .flatMap(symbol => resolveTypeReference(checker, controllerPath, symbol, importedScopeName));
+    };
+}
+
+/**
+ * @hidden
+ * How a viewtest can refer to the type declaring the
+ * isolate scope bindings of a directive.
+ */
+export interface BindingsTypeReference {
+    readonly typeRef: ScopeTypeReference;
+    /**
+     * for each `&` binding, the names of the locals that the directive
+     * gives to the expression (the fields of the parameter of the callback)
+     */
+    readonly callbackLocals: {[bindingName: string]: string[]};
+}
+
+/**
+ * @hidden
+ * The name through which a viewtest refers to a type. Generic
+ * types are checked without their type parameters.
+ */
+export function typeReferenceName(ref: ScopeTypeReference): string {
+    return ref.typeName + ref.typeParams.replace(/T\d+/g, "any");
+}
+
+/**
+ * @hidden
+ * An import that the viewtests referring to a type resolved
+ * in a file of the project need.
+ */
+export interface TypeImport {
+    /**
+     * The file in which the type was resolved
+     */
+    readonly fromPath: string;
+    /**
+     * The name under which the type is imported
+     */
+    readonly typeName: string;
+    /**
+     * The import, the specifier being relative to `fromPath`
+     */
+    readonly moduleImport: ModuleImport;
+}
+
+/**
+ * @hidden
+ * The types resolved for a key of a [[TypeCache]].
+ */
+export interface ResolvedTypes<T> {
+    readonly fromPath: string;
+    readonly types: T;
+    /**
+     * The references among the types, whose imports the viewtests need
+     */
+    readonly typeRefs: ScopeTypeReference[];
+}
+
+/**
+ * @hidden
+ * Building the typescript program is expensive, so the types of the
+ * controllers and directives are only resolved when views first use
+ * them. Keeps the types resolved so far, and the imports they need.
+ */
+export interface TypeCache<T> {
+    /**
+     * The types of a key, resolved on the first call for that key
+     */
+    readonly getOrResolve: (key: string, resolve: () => ResolvedTypes<T>) => T;
+    readonly getResolvedKeys: () => string[];
+    readonly getTypeImports: () => TypeImport[];
+}
+
+/**
+ * @hidden
+ */
+export function createTypeCache<T>(): TypeCache<T> {
+    let resolvedTypes = HashMap.empty<string,T>();
+    let typeImports: TypeImport[] = [];
+    return {
+        getOrResolve: (key, resolve) => {
+            const cached = resolvedTypes.get(key);
+            if (cached.isSome()) {
+                return cached.getOrThrow();
+            }
+            const resolved = resolve();
+            resolved.typeRefs.forEach(ref => ref.moduleImport.toVector().forEach(
+                moduleImport => typeImports.push({
+                    fromPath: resolved.fromPath,
+                    typeName: ref.typeName,
+                    moduleImport
+                })));
+            resolvedTypes = resolvedTypes.put(key, resolved.types);
+            return resolved.types;
+        },
+        getResolvedKeys: () => resolvedTypes.keySet().toArray(),
+        getTypeImports: () => typeImports
+    };
+}
+
+/**
+ * @hidden
+ * Find the reference to the type declaring the bindings of a directive.
+ * @param directivePath the directive file
+ * @param typeName the name of the type if we know it, otherwise
+ *     it's found like the scope type of controllers.
+ * @param importedName the name under which the viewtests import the
+ *     type, if it's declared in a file-level module.
+ * @param callbackBindings the `&` bindings of the directive
+ */
+export type BindingsTypeResolver = (directivePath: string, typeName: Option<string>,
+                                    importedName: string, callbackBindings: string[])
+    => Option<BindingsTypeReference>;
+
+/**
+ * @hidden
+ * Resolve the types declaring the bindings of the directives through
+ * the type checker. The program is built on the first call of the resolver.
+ */
+export function createBindingsTypeResolver(loadProgram: () => ts.Program): BindingsTypeResolver {
+    return (directivePath, typeName, importedName, callbackBindings) => {
+        const program = loadProgram();
+        const checker = program.getTypeChecker();
+        const symbol = Option.of(program.getSourceFile(directivePath))
+            .flatMap(sourceFile => findScopeTypeName(sourceFile, typeName))
+            .flatMap(typeNameNode => getTypeSymbol(checker, typeNameNode));
+        return symbol
+            .flatMap(s => resolveTypeReference(checker, directivePath, s, importedName))
+            .map(typeRef => {
+                const locals: {[bindingName: string]: string[]} = {};
+                callbackBindings.forEach(
+                    name => locals[name] = callbackLocals(checker, symbol.getOrThrow(), name));
+                return {typeRef, callbackLocals: locals};
+            });
+    };
+}
+
+/**
+ * @hidden
+ * Find the type of a filter registered in the project, from the
+ * function returned by the factory of `.filter('name', factory)`.
+ * @param filterPath the file registering the filter
+ * @param filterName the name of the filter
+ * @returns the type of the filter function, for instance
+ *     `(input: string, length: number) => string`
+ */
+export type FilterTypeResolver = (filterPath: string, filterName: string) => Option<string>;
+
+// the types of file-level modules can't be named from the viewtests
+// (the fully qualified name would be like `"path/to/module".Type`)
+const externalModuleTypeRegex = /"[^"]*"\./;
+
+// the filter signatures, typed as overloads if there are several.
+function filterFunctionType(checker: ts.TypeChecker, factory: ts.Expression): Option<string> {
+    const flags = ts.TypeFormatFlags.WriteArrowStyleSignature |
+        ts.TypeFormatFlags.UseFullyQualifiedType | ts.TypeFormatFlags.NoTruncation;
+    return Option.of(checker.getSignaturesOfType(
+        checker.getTypeAtLocation(factory), ts.SignatureKind.Call)[0])
+        .map(factorySignature => checker.getSignaturesOfType(
+            checker.getReturnTypeOfSignature(factorySignature), ts.SignatureKind.Call))
+        .filter(signatures => signatures.length > 0)
+        .map(signatures => signatures.map(sig => checker.signatureToString(sig, undefined, flags)))
+        .map(types => types.some(t => externalModuleTypeRegex.test(t))
+             ? "(...args: any[]) => any"
+             : types.length === 1 ? types[0] : types.map(t => `(${t})`).join(" & "));
+}
+
+/**
+ * @hidden
+ * Resolve the types of the filters of the project through the type
+ * checker. The program is built on the first call of the resolver.
+ */
+export function createFilterTypeResolver(loadProgram: () => ts.Program): FilterTypeResolver {
+    return (filterPath, filterName) => {
+        const program = loadProgram();
+        return Option.of(program.getSourceFile(filterPath))
+            .flatMap(sourceFile => findNode(sourceFile, node =>
+                node.kind === ts.SyntaxKind.CallExpression &&
+                    parseFilterRegistration(<ts.CallExpression>node)
+                    .filter(r => r.filterName === filterName)
+                    .isSome()))
+            .flatMap(node => parseFilterRegistration(<ts.CallExpression>node))
+            .flatMap(r => filterFunctionType(program.getTypeChecker(), r.factory));
+    };
+}
@@ -0,0 +1,84 @@
+import {basename, dirname, relative} from "path";
+import {Vector} from "prelude.ts";
+
+import {ViewSourceMapping} from "./view-parser"
+
+const base64Digits = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * https://sourcemaps.info/spec.html -- base64 VLQ encoding:
+ * the sign is stored in the lowest bit, then groups of 5 bits,
+ * the sixth bit of each digit indicating whether more digits follow.
+ */
+function encodeVlq(value: number): string {
+    let vlq = value < 0 ? ((-value) << 1) + 1 : (value << 1);
+    let result = "";
+    do {
+        let digit = vlq & 31;
+        vlq >>>= 5;
+        if (vlq > 0) {
+            digit |= 32;
+        }
+        result += base64Digits[digit];
+    } while (vlq > 0);
+    return result;
+}
+
+/**
+ * @hidden
+ * Generate a v3 source map for a viewtest file, relating the generated
+ * code to the view elements it was generated from.
+ * @param fileName the path of the generated viewtest
+ * @param source the contents of the generated viewtest
+ * @param mappings the ranges of the viewtest tied to a view element,
+ *     sorted and not overlapping.
+ * @returns the source map, as JSON
+ */
+export function generateSourceMap(fileName: string, source: string,
+                                  mappings: Vector<ViewSourceMapping>): string {
+    const sources: string[] = [];
+    // the fields of a segment are relative to the previous segment,
+    // except for the generated column which restarts at each line.
+    let prevSourceIdx = 0;
+    let prevOrigLine = 0;
+    let prevOrigColumn = 0;
+    let lineStart = 0;
+    const lineMappings = source.split("\n").map(line => {
+        const lineEnd = lineStart + line.length;
+        const lineSegments: string[] = [];
+        let prevGenColumn = 0;
+        const addSegment = (genColumn: number, fields: number[]) => {
+            lineSegments.push([genColumn - prevGenColumn].concat(fields).map(encodeVlq).join(""));
+            prevGenColumn = genColumn;
+        };
+        const lineRanges = mappings.filter(m => m.start < lineEnd && m.end > lineStart).toArray();
+        lineRanges.forEach((m, idx) => {
+            const sourceName = m.location.fileName;
+            if (sources.indexOf(sourceName) < 0) {
+                sources.push(sourceName);
+            }
+            const sourceIdx = sources.indexOf(sourceName);
+            addSegment(Math.max(m.start - lineStart, 0), [
+                sourceIdx - prevSourceIdx,
+                (m.location.line - 1) - prevOrigLine,
+                (m.location.column - 1) - prevOrigColumn]);
+            prevSourceIdx = sourceIdx;
+            prevOrigLine = m.location.line - 1;
+            prevOrigColumn = m.location.column - 1;
+            const next = lineRanges[idx+1];
+            if (m.end < lineEnd && !(next && next.start === m.end)) {
+                // what follows on this line doesn't come from the view.
+                addSegment(m.end - lineStart, []);
+            }
+        });
+        lineStart = lineEnd + 1;
+        return lineSegments.join(",");
+    });
+    return JSON.stringify({
+        version: 3,
+        file: basename(fileName),
+        sources: sources.map(s => relative(dirname(fileName), s)),
+        names: [],
+        mappings: lineMappings.join(";")
+    });
+}
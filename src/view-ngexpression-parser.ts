@@ -1,10 +1,11 @@
 import {readFileSync} from "fs";
 import * as ts from "typescript";
-import {HashSet, Vector} from "prelude.ts";
+import {HashSet, Vector, Option} from "prelude.ts";
 import * as P from "parsimmon"
 
-import {NgScope, requireDefined} from "./view-parser"
+import {NgScope, requireDefined, ViewSourceLocation} from "./view-parser"
 import {NgFilter} from "./filters"
+import {ViewDiagnostic, DiagnosticSeverity} from "./diagnostics"
 
 /**
  * Scope info used by ng-typeview. Directive authors can
@@ -16,6 +17,23 @@ export type NgScopeInfo = {
     curScopeVars: string[]
 };
 
+/**
+ * @hidden
+ * Reports a problem met while converting an expression,
+ * like [[CodegenHelper.reportDiagnostic]].
+ */
+export type DiagnosticReporter = (severity: DiagnosticSeverity, code: string, message: string) => void;
+
+/**
+ * @hidden
+ * A variable declaration generated by a [[CodegenHelper]],
+ * and the location in the view of the value it was declared with.
+ */
+export interface GeneratedDeclaration {
+    readonly source: string;
+    readonly location: Option<ViewSourceLocation>;
+}
+
 /**
  * Companion object to assist typescript code generation.
  * It manages the scope behind the scenes so its state
@@ -27,12 +45,27 @@ export type NgScopeInfo = {
 export class CodegenHelper {
     public readonly ngScopeInfo: NgScopeInfo;
     private getNewVarName: ()=>string;
+    private locateValue: (val:string)=>Option<ViewSourceLocation>;
     public readonly ngFilters: Vector<NgFilter>;
+    /**
+     * @hidden
+     * The variable declarations generated through [[declareVariable]],
+     * so that ng-typeview can tie them to their location in the view.
+     */
+    public readonly declarations: GeneratedDeclaration[] = [];
+    /**
+     * @hidden
+     * The problems reported through [[reportDiagnostic]], so that
+     * ng-typeview can tie them to their location in the view.
+     */
+    public readonly diagnostics: Pick<ViewDiagnostic, "severity"|"code"|"message">[] = [];
 
-    constructor(ngFilters: Vector<NgFilter>, scope: Vector<NgScope>, getNewVarName: ()=>string) {
+    constructor(ngFilters: Vector<NgFilter>, scope: Vector<NgScope>, getNewVarName: ()=>string,
+                locateValue?: (val:string)=>Option<ViewSourceLocation>) {
         this.ngFilters = ngFilters;
         this.ngScopeInfo = {soFar: scope, curScopeVars: []};
         this.getNewVarName = getNewVarName;
+        this.locateValue = locateValue || (_ => Option.none<ViewSourceLocation>());
     }
 
     /**
@@ -46,13 +79,13 @@ export class CodegenHelper {
      * @returns new source with the scope accessors added
      */
     public addScopeAccessors = (js:string): string => {
-        return addScopeAccessors(this.ngScopeInfo.soFar.prepend({
+        return addScopeAccessorsWithFilters(this.ngScopeInfo.soFar.prepend({
             // hardcoding 1...I just need to let addScopeAccessors
             // know about these local variables. a bit of a hack.
             xpathDepth:1,
             closeSource:()=>"",
             variables: this.ngScopeInfo.curScopeVars
-        }), js);
+        }), this, js);
     }
 
     /**
@@ -75,12 +108,82 @@ export class CodegenHelper {
         // if there are embedded {{}} blocks, ignore this and we'll grab them
         // in the html source in general through other means.
         if (val.length > 0 && val.indexOf("{{") < 0) {
-            return `const ${this.getNewVariableName()}: ${type} = ${this.addScopeAccessors(val)};`;
+            const source = `const ${this.getNewVariableName()}: ${type} = ${this.addScopeAccessors(val)};`;
+            this.declarations.push({source, location: this.locateValue(val)});
+            return source;
         } else {
             return ""; // angular tolerates empty attributes and ignores them, for instance ng-submit=""
         }
     }
 
+    /**
+     * Generate a TS expression declaring a function of the type that you
+     * give, which evaluates the value that you give. Angular gives the locals
+     * of such expressions (for instance `&` bindings of directives) as an
+     * object, so the function takes that object and destructures the locals.
+     * Will automatically call `addScopeAccessors` on the value, not
+     * prefixing the locals.
+     * @param type typescript type for the function
+     * @param locals names of the locals available to the value
+     * @param val value for the function to evaluate
+     * @returns typescript expression that registers the function, as string.
+     */
+    public declareCallback(type:string, locals: string[], val:string): string {
+        if (val.length > 0 && val.indexOf("{{") < 0) {
+            const params = locals.length > 0 ? `{${locals.join(", ")}}` : "";
+            const body = functionBody(addScopeAccessorsWithFiltersToStatements(this.ngScopeInfo.soFar.prepend({
+                xpathDepth:1,
+                closeSource:()=>"",
+                variables: this.ngScopeInfo.curScopeVars.concat(locals)
+            }), this, val));
+            const source = `const ${this.getNewVariableName()}: ${type} = (${params}) => ${body};`;
+            this.declarations.push({source, location: this.locateValue(val)});
+            return source;
+        } else {
+            return "";
+        }
+    }
+
+    /**
+     * Generate a TS expression declaring an event handler which evaluates
+     * the value that you give, for instance for `ng-click`. The event locals
+     * (for instance `$event`) are parameters of the handler, of the types
+     * that you give. Will automatically call `addScopeAccessors` on the
+     * value, not prefixing the locals.
+     * @param locals names of the locals available to the value, and their typescript types,
+     *   for instance `{$event: "MouseEvent"}`
+     * @param val value for the handler to evaluate
+     * @returns typescript expression that registers the handler, as string.
+     */
+    public declareEventHandler(locals: {[name:string]: string}, val:string): string {
+        if (val.length > 0 && val.indexOf("{{") < 0) {
+            const names = Object.keys(locals);
+            const body = functionBody(addScopeAccessorsWithFiltersToStatements(this.ngScopeInfo.soFar.prepend({
+                xpathDepth:1,
+                closeSource:()=>"",
+                variables: this.ngScopeInfo.curScopeVars.concat(names)
+            }), this, val));
+            const params = names.map(name => `${name}: ${locals[name]}`).join(", ");
+            const source = `const ${this.getNewVariableName()}: any = (${params}) => ${body};`;
+            this.declarations.push({source, location: this.locateValue(val)});
+            return source;
+        } else {
+            return "";
+        }
+    }
+
+    /**
+     * Report a problem met while generating code, for instance an
+     * expression which can't be parsed. ng-typeview reports it as a
+     * [[ViewDiagnostic]], against the view element being processed.
+     * @param severity how serious the problem is
+     * @param code identifies the kind of problem, for instance `parse-error`
+     * @param message description of the problem
+     */
+    public reportDiagnostic(severity: DiagnosticSeverity, code: string, message: string): void {
+        this.diagnostics.push({severity, code, message});
+    }
+
     /**
      * You must register a variable name when you declare a variable
      * while generating code without going through [[generateVariable]]
@@ -146,87 +249,414 @@ export function parseAtom(): P.Parser<string> {
     return P.takeWhile(c => [' ', '|'].indexOf(c) < 0);
 }
 
-function parseNgExpr(): P.Parser<string> {
-    return P.string("{{").then(P.lazy(parseExpr)).skip(P.string("}}"));
+/**
+ * A node of the AST of an angular expression, as parsed by [[parseNgExpression]].
+ * All the nodes have a `kind`, telling which kind of node it is, and a
+ * `text`, which is the source of the node in the view.
+ */
+export type NgExpression = NgLiteral | NgIdentifier | NgMemberAccess | NgElementAccess |
+    NgCall | NgUnaryOperation | NgBinaryOperation | NgConditional | NgAssignment |
+    NgArrayLiteral | NgObjectLiteral | NgParenthesized | NgFilterApplication;
+
+/**
+ * A string, number, boolean, `null` or `undefined` literal.
+ */
+export interface NgLiteral {
+    readonly kind: "literal";
+    readonly text: string;
+}
+
+/**
+ * A variable, for instance `user`.
+ */
+export interface NgIdentifier {
+    readonly kind: "identifier";
+    readonly text: string;
+}
+
+/**
+ * For instance `user.name`.
+ */
+export interface NgMemberAccess {
+    readonly kind: "member";
+    readonly text: string;
+    readonly expression: NgExpression;
+    readonly name: string;
+}
+
+/**
+ * For instance `users[idx]`.
+ */
+export interface NgElementAccess {
+    readonly kind: "element";
+    readonly text: string;
+    readonly expression: NgExpression;
+    readonly argument: NgExpression;
+}
+
+/**
+ * For instance `getUser(id)`.
+ */
+export interface NgCall {
+    readonly kind: "call";
+    readonly text: string;
+    readonly expression: NgExpression;
+    readonly arguments: NgExpression[];
+}
+
+/**
+ * For instance `!user.isAdmin`. The operator is `!`, `-` or `+`.
+ */
+export interface NgUnaryOperation {
+    readonly kind: "unary";
+    readonly text: string;
+    readonly operator: string;
+    readonly operand: NgExpression;
+}
+
+/**
+ * For instance `count % 2 === 0`.
+ */
+export interface NgBinaryOperation {
+    readonly kind: "binary";
+    readonly text: string;
+    readonly operator: string;
+    readonly left: NgExpression;
+    readonly right: NgExpression;
+}
+
+/**
+ * For instance `isAdmin ? 'admin' : 'user'`.
+ */
+export interface NgConditional {
+    readonly kind: "conditional";
+    readonly text: string;
+    readonly condition: NgExpression;
+    readonly whenTrue: NgExpression;
+    readonly whenFalse: NgExpression;
+}
+
+/**
+ * For instance `selected = user`, typically in `ng-click`.
+ */
+export interface NgAssignment {
+    readonly kind: "assignment";
+    readonly text: string;
+    readonly target: NgExpression;
+    readonly value: NgExpression;
+}
+
+/**
+ * For instance `[1, 2]`.
+ */
+export interface NgArrayLiteral {
+    readonly kind: "array";
+    readonly text: string;
+    readonly elements: NgExpression[];
+}
+
+/**
+ * For instance `{active: isActive, 'has-error': error}`.
+ */
+export interface NgObjectLiteral {
+    readonly kind: "object";
+    readonly text: string;
+    readonly properties: NgObjectProperty[];
 }
 
-function parseArithmeticOperator(): P.Parser<string> {
-    return keyword("+").or(keyword("-")).or(keyword("*")).or(keyword("/"));
+/**
+ * A property of an [[NgObjectLiteral]].
+ */
+export interface NgObjectProperty {
+    /**
+     * The key as written in the source (with the quotes if it's a string)
+     */
+    readonly key: string;
+    readonly value: NgExpression;
 }
 
-function parseLogicalOperator(): P.Parser<string> {
-    return keyword("&&").or(keyword("||"))
-        .or(keyword("===")).or(keyword("!=="))
-        .or(keyword("<")).or(keyword("<=")).or(keyword(">")).or(keyword(">="));
+/**
+ * For instance `(a + b)`.
+ */
+export interface NgParenthesized {
+    readonly kind: "parenthesized";
+    readonly text: string;
+    readonly expression: NgExpression;
 }
 
-function parseBinaryOperations(): P.Parser<string> {
-    return parseString().or(parseAtom())
-        .chain(expr => parseLogicalOperator().or(parseArithmeticOperator())
-            .chain(op => parseBinaryOperations().or(parseString()).or(parseAtom())
-                .map(expr2 => expr + op + expr2)));
+/**
+ * An angular filter applied to an expression,
+ * for instance `items | orderBy: 'name'`.
+ */
+export interface NgFilterApplication {
+    readonly kind: "filter";
+    readonly text: string;
+    readonly input: NgExpression;
+    readonly filterName: string;
+    readonly arguments: NgExpression[];
 }
 
-function parseTernary(): P.Parser<string> {
-    return parseBinaryOperations().or(parseAtom())
-        .skip(keyword("?"))
-        .chain(expr => parseExpr()
-            .chain(expr2 => keyword(":").then(parseExpr())
-                .map(expr3 => expr + " ? " + expr2 + ":" + expr3)));
+// gives the whole input to the parser, without consuming anything
+const currentInput: P.Parser<string> = P<string>((input, i) => P.makeSuccess(i, input));
+
+function token(txt: string): P.Parser<string> {
+    return P.optWhitespace.then(P.string(txt));
 }
 
-function parseString(): P.Parser<string> {
-    const str = (sep:string) => P.string(sep)
-        .then(P.noneOf(sep).many())
-        .skip(P.string(sep))
-        .map(s => sep + s.join("") + sep);
-    return str("'").or(str('"'));
+function tokenRegexp(re: RegExp): P.Parser<string> {
+    return P.optWhitespace.then(P.regexp(re));
 }
 
-function parseBracketed<T>(next: P.Parser<T>): P.Parser<T> {
-    return P.regexp(/\s*\(\s*/).then(next).skip(P.regexp(/\s*\)/));
+// the operators must be sorted longest first
+function operators(ops: string[]): P.Parser<string> {
+    return P.alt(...ops.map(op => token(op)));
 }
 
-function parseExpr() : P.Parser<string> {
-    return parseNgExpr()
-        .or(parseBracketed(P.lazy(parseExpr)))
-        .or(parseTernary())
-        .or(parseBinaryOperations())
-        .or(parseString())
-        .or(parseAtom());
+const identifierRegex = /[a-zA-Z_$][\w$]*/;
+
+const literalKeywords = ["true", "false", "null", "undefined"];
+
+// a node and where it starts in the input. Trailing whitespace is never
+// consumed, so that parsers for directives can look for keywords
+// after the expression (`item in items track by item.id`).
+function located<T>(parser: P.Parser<T>): P.Parser<[T, string, number]> {
+    return P.seqMap(currentInput, P.optWhitespace.then(P.index), parser,
+                    (input, start, value) => <[T, string, number]>[value, input, start.offset]);
+}
+
+// parse a node, then operations building on it, left-associatively.
+function leftAssociative<T>(
+    first: P.Parser<NgExpression>, next: P.Parser<T>,
+    build: (soFar: NgExpression, next: T, text: string) => NgExpression): P.Parser<NgExpression> {
+    return P.seqMap(
+        located(first), P.seq(next, P.index).many(),
+        ([node, input, start], nexts) => nexts.reduce(
+            (soFar, [n, end]) => build(soFar, n, input.substring(start, end.offset)), node));
+}
+
+function withText<T>(parser: P.Parser<(text: string) => T>): P.Parser<T> {
+    return P.seqMap(located(parser), P.index,
+                    ([build, input, start], end) => build(input.substring(start, end.offset)));
+}
+
+function parsePrimary(): P.Parser<NgExpression> {
+    const stringLiteral = tokenRegexp(/'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"/);
+    const numberLiteral = tokenRegexp(/(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/);
+    const literal = stringLiteral.or(numberLiteral)
+        .map<NgExpression>(text => ({kind: "literal", text}));
+    const identifier = tokenRegexp(identifierRegex)
+        .map<NgExpression>(text => literalKeywords.indexOf(text) >= 0
+             ? {kind: "literal", text}
+             : {kind: "identifier", text});
+    const parenthesized = withText(
+        token("(").then(P.lazy(parseFilterChain)).skip(token(")"))
+            .map(expression => (text: string): NgExpression =>
+                 ({kind: "parenthesized", text, expression})));
+    const array = withText(
+        token("[").then(P.sepBy(P.lazy(parseAssignment), token(",")))
+            .skip(token(",").atMost(1)).skip(token("]"))
+            .map(elements => (text: string): NgExpression => ({kind: "array", text, elements})));
+    const property = P.seqMap(
+        stringLiteral.or(numberLiteral).or(tokenRegexp(identifierRegex)),
+        token(":").then(P.lazy(parseAssignment)),
+        (key, value) => ({key, value}));
+    const object = withText(
+        token("{").then(P.sepBy(property, token(",")))
+            .skip(token(",").atMost(1)).skip(token("}"))
+            .map(properties => (text: string): NgExpression => ({kind: "object", text, properties})));
+    return P.alt(literal, identifier, parenthesized, array, object);
+}
+
+function parsePostfix(): P.Parser<NgExpression> {
+    type Postfix = (expression: NgExpression, text: string) => NgExpression;
+    const member = token(".").then(tokenRegexp(identifierRegex))
+        .map<Postfix>(name => (expression, text) => ({kind: "member", text, expression, name}));
+    const element = token("[").then(P.lazy(parseAssignment)).skip(token("]"))
+        .map<Postfix>(argument => (expression, text) => ({kind: "element", text, expression, argument}));
+    // the arguments of calls can apply filters
+    const call = token("(").then(P.sepBy(P.lazy(parseFilterChain), token(","))).skip(token(")"))
+        .map<Postfix>(args => (expression, text) => ({kind: "call", text, expression, arguments: args}));
+    return leftAssociative(parsePrimary(), P.alt(member, element, call),
+                           (soFar, postfix, text) => postfix(soFar, text));
+}
+
+function parseUnary(): P.Parser<NgExpression> {
+    return withText(
+        P.seqMap(tokenRegexp(/[!+-]/), P.lazy(parseUnary),
+                 (operator, operand) => (text: string): NgExpression =>
+                 ({kind: "unary", text, operator, operand})))
+        .or(parsePostfix());
+}
+
+function parseBinary(operand: P.Parser<NgExpression>, ops: string[]): P.Parser<NgExpression> {
+    return leftAssociative(
+        operand, P.seq(operators(ops), operand),
+        (left, [operator, right], text) => ({kind: "binary", text, operator, left, right}));
+}
+
+function parseLogicalOr(): P.Parser<NgExpression> {
+    const multiplicative = parseBinary(parseUnary(), ["*", "/", "%"]);
+    const additive = parseBinary(multiplicative, ["+", "-"]);
+    const relational = parseBinary(additive, ["<=", ">=", "<", ">"]);
+    const equality = parseBinary(relational, ["===", "!==", "==", "!="]);
+    const logicalAnd = parseBinary(equality, ["&&"]);
+    return parseBinary(logicalAnd, ["||"]);
+}
+
+function parseConditional(): P.Parser<NgExpression> {
+    return P.seqMap(
+        located(parseLogicalOr()),
+        P.seq(token("?").then(P.lazy(parseAssignment)),
+              token(":").then(P.lazy(parseAssignment)), P.index).atMost(1),
+        ([condition, input, start], branches) => branches
+            .map<NgExpression>(([whenTrue, whenFalse, end]) => ({
+                kind: "conditional", text: input.substring(start, end.offset),
+                condition, whenTrue, whenFalse}))
+            .concat([condition])[0]);
+}
+
+function parseAssignment(): P.Parser<NgExpression> {
+    return P.seqMap(
+        located(parseConditional()),
+        P.seq(tokenRegexp(/=(?!=)/).then(P.lazy(parseAssignment)), P.index).atMost(1),
+        ([target, input, start], values) => values
+            .map<NgExpression>(([value, end]) => ({
+                kind: "assignment", text: input.substring(start, end.offset), target, value}))
+            .concat([target])[0]);
+}
+
+function parseFilterChain(): P.Parser<NgExpression> {
+    const filter = P.seq(
+        tokenRegexp(/\|(?!\|)/).then(tokenRegexp(identifierRegex)),
+        token(":").then(P.lazy(parseAssignment)).many());
+    return leftAssociative(
+        parseAssignment(), filter,
+        (input, [filterName, args], text) => ({kind: "filter", text, input, filterName, arguments: args}));
+}
+
+/**
+ * [Parsimmon](https://github.com/jneen/parsimmon) parser for angular
+ * expressions, including filters (for instance `items | orderBy: 'name'`).
+ * The expression may be a one-time binding (`::user.name`), the `::` prefix
+ * is then not part of the AST.
+ * Whitespace after the expression is not consumed.
+ * @returns a [Parsimmon](https://github.com/jneen/parsimmon) Parser of [[NgExpression]]
+ */
+export function parseNgExpression(): P.Parser<NgExpression> {
+    return token("::").atMost(1).then(parseFilterChain());
+}
+
+/**
+ * [Parsimmon](https://github.com/jneen/parsimmon) parser for a list of
+ * angular expressions separated by semicolons, as can be found in `ng-click`
+ * for instance: `selected = user; save()`.
+ * @returns a [Parsimmon](https://github.com/jneen/parsimmon) Parser of [[NgExpression]] lists
+ */
+export function parseNgStatements(): P.Parser<NgExpression[]> {
+    return P.sepBy1(parseNgExpression(), token(";"))
+        .skip(token(";").atMost(1))
+        .skip(P.optWhitespace);
+}
+
+function containsFilter(expr: NgExpression): boolean {
+    switch (expr.kind) {
+    case "filter":
+        return true;
+    case "member":
+    case "parenthesized":
+        return containsFilter(expr.expression);
+    case "element":
+        return containsFilter(expr.expression) || containsFilter(expr.argument);
+    case "call":
+        return containsFilter(expr.expression) || expr.arguments.some(containsFilter);
+    case "unary":
+        return containsFilter(expr.operand);
+    case "binary":
+        return containsFilter(expr.left) || containsFilter(expr.right);
+    case "conditional":
+        return containsFilter(expr.condition) ||
+            containsFilter(expr.whenTrue) || containsFilter(expr.whenFalse);
+    case "assignment":
+        return containsFilter(expr.target) || containsFilter(expr.value);
+    case "array":
+        return expr.elements.some(containsFilter);
+    case "object":
+        return expr.properties.some(p => containsFilter(p.value));
+    default:
+        return false;
+    }
 }
 
 /**
  * [Parsimmon](https://github.com/jneen/parsimmon) parser for angular filter
  * expressions. You can then use [[ngFilterExpressionToTypeScriptEmbedded]]
  * and [[ngFilterExpressionToTypeScriptStandalone]] to operate on the data.
+ * Built on [[parseNgExpression]]: filters can also be applied within the
+ * base expression, for instance in parentheses.
  * @returns a [Parsimmon](https://github.com/jneen/parsimmon) Parser of [[NgFilterExpression]]
  */
 export function parseNgFilterExpression(): P.Parser<NgFilterExpression> {
-    return P.optWhitespace.then(parseExpr())
-        .chain(expression => P.regex(/\s*\|\s*/).then(parseNgFilterCall()).many()
-               .map(filterCalls => ({expression, filterCalls})));
+    return parseNgExpression().map(toFilterExpression);
+}
+
+// the filters applied at the top-level of the expression
+function toFilterExpression(expr: NgExpression): NgFilterExpression {
+    if (expr.kind !== "filter") {
+        return {expression: expr.text, filterCalls: []};
+    }
+    const inner = toFilterExpression(expr.input);
+    return {
+        expression: inner.expression,
+        filterCalls: inner.filterCalls.concat([{
+            functionName: expr.filterName,
+            functionParameters: expr.arguments.map(a => a.text)
+        }])
+    };
 }
 
-function parseNgFilterCall(): P.Parser<NgFilterCall> {
-    return P.takeWhile(c => [' ', ':', ')'].indexOf(c) < 0).chain(
-        functionName => parseNgFilterParam().many()
-            .map(functionParameters => ({functionName, functionParameters})));
+// https://en.wikipedia.org/wiki/Levenshtein_distance
+function editDistance(a: string, b: string): number {
+    let previousRow: number[] = [];
+    for (let j=0;j<=b.length;j++) {
+        previousRow.push(j);
+    }
+    for (let i=1;i<=a.length;i++) {
+        const row = [i];
+        for (let j=1;j<=b.length;j++) {
+            row.push(Math.min(
+                previousRow[j] + 1, row[j-1] + 1,
+                previousRow[j-1] + (a[i-1] === b[j-1] ? 0 : 1)));
+        }
+        previousRow = row;
+    }
+    return previousRow[b.length];
 }
 
-function parseNgFilterParam() : P.Parser<string> {
-    const simpleParam = P.takeWhile(c => [':', '|'].indexOf(c) < 0);
-    const objectLiteralParam = P.string("{")
-        .then(P.takeWhile(c => c !== "}")).skip(P.string("}")).map(s => "{" + s + "}");
-    return P.regex(/\s*:\s*/).then(objectLiteralParam.or(simpleParam));
+// the known filter with the closest name, if it's close enough to be a typo
+function suggestFilterName(ngFilters: Vector<NgFilter>, name: string): Option<string> {
+    const maxDistance = Math.max(2, Math.floor(name.length / 3));
+    return ngFilters
+        .map(f => ({name: f.name, distance: editDistance(name.toLowerCase(), f.name.toLowerCase())}))
+        .filter(f => f.distance <= maxDistance)
+        .sortOn(f => f.distance)
+        .head()
+        .map(f => f.name);
 }
 
-function wrapFilterCall(ngFilters: Vector<NgFilter>, addScAccessors: (x:string)=>string):
+function wrapFilterCall(codegenHelpers: CodegenHelper, addScAccessors: (x:string)=>string):
     (soFar: string, ngFilterCall: NgFilterCall) => string {
     return (soFar, ngFilterCall) => {
-        const filterInfo = ngFilters.find(f => f.name === ngFilterCall.functionName).getOrUndefined();
+        const filterInfo = codegenHelpers.ngFilters
+            .find(f => f.name === ngFilterCall.functionName).getOrUndefined();
         if (!filterInfo) {
-            throw "Unknown filter: " + ngFilterCall.functionName + " -- context: " + soFar;
+            codegenHelpers.reportDiagnostic(
+                "error", "unknown-filter", "unknown filter: " + ngFilterCall.functionName +
+                    suggestFilterName(codegenHelpers.ngFilters, ngFilterCall.functionName)
+                    .map(name => `, did you mean ${name}?`).getOrElse(""));
+            // the parameters are still checked, and the rest of the
+            // expression gets an any value.
+            const params = ngFilterCall.functionParameters.map(addScAccessors);
+            return `(<any>undefined)(${[soFar].concat(params).join(", ")})`;
         }
         const addAccessorsForParam = filterInfo.addScopeToParam;
         const params = ngFilterCall.functionParameters
@@ -236,6 +666,75 @@ function wrapFilterCall(ngFilters: Vector<NgFilter>, addScAccessors: (x:string)=
     }
 }
 
+// typescript code for an expression which applies filters within it
+// (the parts without filters go through addScAccessors as they are)
+function ngExpressionToTypeScript(codegenHelpers: CodegenHelper, addScAccessors: (x:string)=>string):
+    (expr: NgExpression) => string {
+    const toTs = (expr: NgExpression): string => {
+        if (!containsFilter(expr)) {
+            return addScAccessors(expr.text);
+        }
+        switch (expr.kind) {
+        case "filter":
+            return wrapFilterCall(codegenHelpers, addScAccessors)(
+                toTs(expr.input),
+                {functionName: expr.filterName, functionParameters: expr.arguments.map(a => a.text)});
+        case "member":
+            return toTs(expr.expression) + "." + expr.name;
+        case "element":
+            return toTs(expr.expression) + "[" + toTs(expr.argument) + "]";
+        case "call":
+            return toTs(expr.expression) + "(" + expr.arguments.map(toTs).join(", ") + ")";
+        case "unary":
+            return expr.operator + toTs(expr.operand);
+        case "binary":
+            return toTs(expr.left) + " " + expr.operator + " " + toTs(expr.right);
+        case "conditional":
+            return toTs(expr.condition) + " ? " + toTs(expr.whenTrue) + " : " + toTs(expr.whenFalse);
+        case "assignment":
+            return toTs(expr.target) + " = " + toTs(expr.value);
+        case "array":
+            return "[" + expr.elements.map(toTs).join(", ") + "]";
+        case "object":
+            return "{" + expr.properties.map(p => p.key + ": " + toTs(p.value)).join(", ") + "}";
+        case "parenthesized":
+            return "(" + toTs(expr.expression) + ")";
+        default:
+            return addScAccessors(expr.text);
+        }
+    };
+    return toTs;
+}
+
+// filters are not javascript: if the expression applies filters within it,
+// it's converted from its angular AST instead of the typescript parser.
+function addScopeAccessorsWithFiltersToStatements(scopes: Vector<NgScope>, codegenHelpers: CodegenHelper,
+                                                  js: string): string[] {
+    if (js.indexOf("|") >= 0) {
+        const statements = parseNgStatements().parse(js);
+        if (statements.status && statements.value.some(containsFilter)) {
+            return statements.value.map(ngExpressionToTypeScript(
+                codegenHelpers, input => addScopeAccessorsWithFilters(scopes, codegenHelpers, input)));
+        }
+    }
+    return addScopeAccessorsToStatements(scopes, js, (severity, code, message) =>
+                                         codegenHelpers.reportDiagnostic(severity, code, message));
+}
+
+function addScopeAccessorsWithFilters(scopes: Vector<NgScope>, codegenHelpers: CodegenHelper,
+                                      js: string): string {
+    return addScopeAccessorsWithFiltersToStatements(scopes, codegenHelpers, js).join("; ");
+}
+
+// the body of a function evaluating the statements of an expression:
+// angular evaluates them in order, and returns the value of the last one.
+function functionBody(statements: string[]): string {
+    const nonEmpty = statements.filter(s => s.trim().length > 0);
+    return nonEmpty.length > 1
+        ? `{${nonEmpty.slice(0, -1).join("; ")}; return ${nonEmpty[nonEmpty.length-1]};}`
+        : nonEmpty.join("");
+}
+
 /**
  * Convert an angular filter expression to typescript code.
  * For instance, "data.items | orderBy: 'name'" will become:
@@ -252,14 +751,15 @@ export function filterExpressionToTypescript(
     if (expr.indexOf("|") < 0) {
         return ngFilterExpressionToTypeScriptStandalone({expression: expr, filterCalls: []}, codegenHelpers);
     }
-    const ngFilterExpr = parseNgFilterExpression().skip(P.optWhitespace).parse(expr);
-    if (!ngFilterExpr.status) {
-        console.warn("Failed parsing filter expression");
-        console.warn(expr);
-        console.warn(ngFilterExpr);
+    const statements = parseNgStatements().parse(expr);
+    if (!statements.status) {
+        codegenHelpers.reportDiagnostic(
+            "error", "parse-error", "can't parse the expression: " + P.formatError(expr, statements));
         return "";
     }
-    return ngFilterExpressionToTypeScriptStandalone(ngFilterExpr.value, codegenHelpers);
+    return statements.value
+        .map(stmt => ngFilterExpressionToTypeScriptStandalone(toFilterExpression(stmt), codegenHelpers))
+        .join("");
 }
 
 /**
@@ -279,7 +779,7 @@ export function ngFilterExpressionToTypeScriptStandalone(
     }
 
     return ngFilterExpr.filterCalls.reduce(
-        wrapFilterCall(codegenHelpers.ngFilters, codegenHelpers.addScopeAccessors),
+        wrapFilterCall(codegenHelpers, codegenHelpers.addScopeAccessors),
         codegenHelpers.addScopeAccessors(ngFilterExpr.expression)) + ";";
 }
 
@@ -306,14 +806,20 @@ export function ngFilterExpressionToTypeScriptEmbedded(
     }
 
     return ngFilterExpr.filterCalls.reduce(
-        wrapFilterCall(codegenHelpers.ngFilters, codegenHelpers.addScopeAccessors),
+        wrapFilterCall(codegenHelpers, codegenHelpers.addScopeAccessors),
         codegenHelpers.addScopeAccessors(ngFilterExpr.expression));
 }
 
-/**
- * @hidden
- */
-export function addScopeAccessors(scopes: Vector<NgScope>, _input: string): string {
+// remove the `::` prefix of a one-time binding expression
+// (for instance `::user.name`), if present.
+function stripOneTimeBinding(expr: string): string {
+    return expr.replace(/^\s*::/, "");
+}
+
+function addScopeAccessorsToStatements(scopes: Vector<NgScope>, _oneTimeInput: string,
+                                      reportDiagnostic: DiagnosticReporter): string[] {
+    // one-time bindings are checked like any other expression
+    const _input = stripOneTimeBinding(_oneTimeInput);
     // ugly trick of prepending "!" in case the first character is "{"
     // the reason is that without that, the typescript parser interprets
     // as a Block. In reality it's an object literal. I found out that if
@@ -322,12 +828,22 @@ export function addScopeAccessors(scopes: Vector<NgScope>, _input: string): stri
     const input = _input.trim().startsWith("{") ? "!" + _input.trim() : _input;
     const sourceFile = ts.createSourceFile(
         "", input, ts.ScriptTarget.ES2016, /*setParentNodes */ true);
-    const result = sourceFile.statements.map(stmtAddScopeAccessors(scopes)).join("");
+    const result = sourceFile.statements.map(stmtAddScopeAccessors(scopes, reportDiagnostic));
     // remove the leading ! if we added one.
-    return _input.trim().startsWith("{") ? result.substring(1) : result;
+    return _input.trim().startsWith("{")
+        ? [result[0].substring(1)].concat(result.slice(1))
+        : result;
+}
+
+/**
+ * @hidden
+ */
+export function addScopeAccessors(scopes: Vector<NgScope>, _oneTimeInput: string,
+                                  reportDiagnostic: DiagnosticReporter): string {
+    return addScopeAccessorsToStatements(scopes, _oneTimeInput, reportDiagnostic).join("; ");
 }
 
-function handleRegexpNode(node: ts.RegularExpressionLiteral) {
+function handleRegexpNode(node: ts.RegularExpressionLiteral, reportDiagnostic: DiagnosticReporter) {
     // {} and other characters in regex literals confuse the indenting
     // pass that I have during codegen. generate a more uniform syntax.
     if (node.text.startsWith('/') && node.text.endsWith('/')) {
@@ -344,11 +860,11 @@ function handleRegexpNode(node: ts.RegularExpressionLiteral) {
                 if (node.text.indexOf('{') >= 0 ||
                     node.text.indexOf('}') >= 0 ||
                     node.text.indexOf(';') >= 0) {
-                    console.warn(
-                        "Warning: it's likely that the rendering of the regular expression" +
-                            regexText + " causes problems." +
-                            " Consider moving its value to the view instead of the controller" +
-                            " or changing it to the 'new Regexp()' form.");
+                    reportDiagnostic(
+                        "warning", "regexp-rendering",
+                        "it's likely that the rendering of the regular expression " +
+                            node.text + " causes problems. Consider moving its value" +
+                            " to the controller or changing it to the 'new RegExp()' form");
                 }
                 return node.getText();
             }
@@ -367,65 +883,69 @@ const nodeKindPassthroughList = HashSet.of(
     ts.SyntaxKind.FalseKeyword,
     ts.SyntaxKind.UndefinedKeyword);
 
-function stmtAddScopeAccessors(scopes: Vector<NgScope>): (node: ts.Node) => string {
+function stmtAddScopeAccessors(scopes: Vector<NgScope>,
+                               reportDiagnostic: DiagnosticReporter): (node: ts.Node) => string {
     return node => {
         if (node.kind === ts.SyntaxKind.ExpressionStatement) {
-            return stmtAddScopeAccessors(scopes)((<ts.ExpressionStatement>node).expression);
+            return stmtAddScopeAccessors(scopes, reportDiagnostic)((<ts.ExpressionStatement>node).expression);
         } else if (node.kind === ts.SyntaxKind.RegularExpressionLiteral) {
-            return handleRegexpNode(<ts.RegularExpressionLiteral>node);
+            return handleRegexpNode(<ts.RegularExpressionLiteral>node, reportDiagnostic);
         } else if (node.kind === ts.SyntaxKind.PropertyAccessExpression) {
             const prop = <ts.PropertyAccessExpression>node;
-            return stmtAddScopeAccessors(scopes)(prop.expression) + "." + prop.name.getText();
+            return stmtAddScopeAccessors(scopes, reportDiagnostic)(prop.expression) + "." + prop.name.getText();
         } else if (node.kind === ts.SyntaxKind.Identifier) {
             return node.getText() === "undefined" ? "undefined" : addScopePrefixIfNeeded(scopes, node.getText());
         } else if (node.kind === ts.SyntaxKind.PrefixUnaryExpression) {
             const op = <ts.PrefixUnaryExpression>node;
-            return ts.tokenToString(op.operator) + stmtAddScopeAccessors(scopes)(op.operand);
+            return ts.tokenToString(op.operator) + stmtAddScopeAccessors(scopes, reportDiagnostic)(op.operand);
         } else if (node.kind === ts.SyntaxKind.CallExpression) {
             const expr = <ts.CallExpression>node;
-            return stmtAddScopeAccessors(scopes)(expr.expression) + "(" +
-                expr.arguments.map(stmtAddScopeAccessors(scopes)).join(", ") + ")";
+            return stmtAddScopeAccessors(scopes, reportDiagnostic)(expr.expression) + "(" +
+                expr.arguments.map(stmtAddScopeAccessors(scopes, reportDiagnostic)).join(", ") + ")";
         } else if (node.kind === ts.SyntaxKind.BinaryExpression) {
             const expr = <ts.BinaryExpression>node;
-            return stmtAddScopeAccessors(scopes)(expr.left)
+            return stmtAddScopeAccessors(scopes, reportDiagnostic)(expr.left)
                 + " " + expr.operatorToken.getText() + " "
-                + stmtAddScopeAccessors(scopes)(expr.right);
+                + stmtAddScopeAccessors(scopes, reportDiagnostic)(expr.right);
         } else if (node.kind === ts.SyntaxKind.ElementAccessExpression) {
             const acc = <ts.ElementAccessExpression>node;
             const argValue = acc.argumentExpression
-                ? stmtAddScopeAccessors(scopes)(acc.argumentExpression)
+                ? stmtAddScopeAccessors(scopes, reportDiagnostic)(acc.argumentExpression)
                 : "";
-            return stmtAddScopeAccessors(scopes)(acc.expression) +
+            return stmtAddScopeAccessors(scopes, reportDiagnostic)(acc.expression) +
                 "["+ argValue + "]";
         } else if (node.kind === ts.SyntaxKind.ConditionalExpression) {
             const cond = <ts.ConditionalExpression>node;
-            return stmtAddScopeAccessors(scopes)(cond.condition) + " ? " +
-                stmtAddScopeAccessors(scopes)(cond.whenTrue) + " : " +
-                stmtAddScopeAccessors(scopes)(cond.whenFalse);
+            return stmtAddScopeAccessors(scopes, reportDiagnostic)(cond.condition) + " ? " +
+                stmtAddScopeAccessors(scopes, reportDiagnostic)(cond.whenTrue) + " : " +
+                stmtAddScopeAccessors(scopes, reportDiagnostic)(cond.whenFalse);
         } else if (node.kind === ts.SyntaxKind.LabeledStatement) {
             const lStat = <ts.LabeledStatement>node;
-            return lStat.label.text + ": " + stmtAddScopeAccessors(scopes)(lStat.statement);
+            return lStat.label.text + ": " + stmtAddScopeAccessors(scopes, reportDiagnostic)(lStat.statement);
         } else if (node.kind === ts.SyntaxKind.SyntaxList) {
-            return node.getChildren().map(stmtAddScopeAccessors(scopes)).join("");
+            return node.getChildren().map(stmtAddScopeAccessors(scopes, reportDiagnostic)).join("");
         } else if (nodeKindPassthroughList.contains(node.kind)) {
             return node.getText();
         } else if (node.kind >= ts.SyntaxKind.FirstToken && node.kind <= ts.SyntaxKind.LastToken) {
             return ts.tokenToString(node.kind);
         } else if (node.kind === ts.SyntaxKind.ParenthesizedExpression) {
-            return "(" + stmtAddScopeAccessors(scopes)(
+            return "(" + stmtAddScopeAccessors(scopes, reportDiagnostic)(
                 (<ts.ParenthesizedExpression>node).expression) + ")";
         } else if (node.kind === ts.SyntaxKind.ArrayLiteralExpression) {
-            return "[" + (<ts.ArrayLiteralExpression>node).elements.map(stmtAddScopeAccessors(scopes)).join(", ") + "]";
+            return "[" + (<ts.ArrayLiteralExpression>node).elements.map(stmtAddScopeAccessors(scopes, reportDiagnostic)).join(", ") + "]";
         } else if (node.kind === ts.SyntaxKind.ObjectLiteralExpression) {
             return "{" +
                 (<ts.ObjectLiteralExpression>node).properties
-                .map(stmtAddScopeAccessors(scopes)).join(", ") +
+                .map(stmtAddScopeAccessors(scopes, reportDiagnostic)).join(", ") +
                 "}";
         } else if (node.kind === ts.SyntaxKind.PropertyAssignment) {
             const paNode = <ts.PropertyAssignment>node;
-            return paNode.name.getText() + ": " + stmtAddScopeAccessors(scopes)(paNode.initializer);
+            return paNode.name.getText() + ": " + stmtAddScopeAccessors(scopes, reportDiagnostic)(paNode.initializer);
         }
-        console.log("Add scope accessors: unhandled node: " + node.kind + " -- "+ node.getText());
+        reportDiagnostic(
+            "warning", "unhandled-expression",
+            `unhandled ${ts.SyntaxKind[node.kind]}: ${node.getText()}, ` +
+                "the scope accessors are not added to it");
         return node.getText();
     }
 }
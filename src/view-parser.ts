@@ -2,8 +2,11 @@ import {Parser, Handler} from "htmlparser2";
 import {readFileSync} from "fs";
 import { Option, Vector } from "prelude.ts";
 import {AttributeDirectiveHandler, TagDirectiveHandler, DirectiveResponse} from "./ng-directives"
-import {filterExpressionToTypescript, CodegenHelper, addScopeAccessors} from "./view-ngexpression-parser"
+import {filterExpressionToTypescript, CodegenHelper, addScopeAccessors,
+        GeneratedDeclaration} from "./view-ngexpression-parser"
 import {NgFilter} from "./filters"
+import {CtrlViewFragment} from "./controller-parser"
+import {ViewDiagnostic} from "./diagnostics"
 
 /**
  * @hidden
@@ -14,16 +17,208 @@ export interface NgScope {
     readonly variables: string[];
 }
 
+/**
+ * Position of a view element (attribute, tag or `{{}}` block)
+ * in its source file.
+ */
+export interface ViewSourceLocation {
+    /**
+     * The file containing the element. Normally the view, but it
+     * can also be a controller, for view fragments embedded in
+     * controllers (see [[CtrlViewFragmentExtractor]]).
+     */
+    readonly fileName: string;
+    /**
+     * Line of the element in the file (1-based)
+     */
+    readonly line: number;
+    /**
+     * Column of the element in the file (1-based)
+     */
+    readonly column: number;
+    /**
+     * The source of the element, for instance `ng-if="user.isAdmin"`
+     * or `{{user.name}}`.
+     */
+    readonly snippet: string;
+}
+
+/**
+ * @hidden
+ * Ties a range of the generated typescript source to
+ * the view element it was generated from.
+ */
+export interface ViewSourceMapping {
+    readonly start: number;
+    readonly end: number;
+    readonly location: ViewSourceLocation;
+}
+
+/**
+ * @hidden
+ */
+export interface GeneratedView {
+    readonly source: string;
+    readonly mappings: Vector<ViewSourceMapping>;
+    readonly diagnostics: Vector<ViewDiagnostic>;
+    /**
+     * The files of the templates which the view includes
+     * through `ng-include`
+     */
+    readonly includedFiles: Vector<string>;
+}
+
+/**
+ * What the parsing of a view (or of a template it includes) generated.
+ */
+interface ParsedView {
+    readonly chunks: Vector<SourceChunk>;
+    readonly diagnostics: Vector<ViewDiagnostic>;
+    readonly includedFiles: Vector<string>;
+}
+
+/**
+ * A piece of generated typescript source, and the
+ * view element it was generated from, if we know it.
+ */
+interface SourceChunk {
+    readonly source: string;
+    readonly location: Option<ViewSourceLocation>;
+}
+
+/**
+ * @hidden
+ * We feed the html parser the view, then the view fragments
+ * embedded in the controller. Each of these is an input.
+ * Templates declared through `<script type="text/ng-template">`
+ * are inputs too.
+ */
+export interface ParserInput {
+    readonly fileName: string;
+    readonly contents: string;
+    // where the contents start in the file (1-based)
+    readonly line: number;
+    readonly column: number;
+}
+
+/**
+ * Get the location of a view element, from its offset in the
+ * concatenation of all the parser inputs.
+ */
+type Locator = (inputOffset: number, snippet: string) => Option<ViewSourceLocation>;
+
+/**
+ * @hidden
+ * Find the template of an url, as given to `ng-include` or `templateUrl`.
+ */
+export type TemplateResolver = (url: string) => Option<ParserInput>;
+
+/**
+ * Report the diagnostics given to a codegen helper from an index on,
+ * against a view element.
+ */
+type DiagnosticsReporter = (codegenHelpers: CodegenHelper, fromIdx: number,
+                            location: Option<ViewSourceLocation>) => void;
+
+function getLocator(inputs: ParserInput[]): Locator {
+    return (inputOffset, snippet) => {
+        let offset = inputOffset;
+        for (let i=0;i<inputs.length;i++) {
+            const input = inputs[i];
+            if (offset < input.contents.length) {
+                const linesBefore = input.contents.substring(0, offset).split("\n");
+                const lastLine = linesBefore[linesBefore.length-1];
+                return Option.of({
+                    fileName: input.fileName,
+                    line: input.line + linesBefore.length - 1,
+                    column: (linesBefore.length === 1 ? input.column : 1) + lastLine.length,
+                    snippet
+                });
+            }
+            offset -= input.contents.length;
+        }
+        return Option.none<ViewSourceLocation>();
+    };
+}
+
+/**
+ * The htmlparser2 typings don't expose the position of the
+ * element being parsed, but the parser has it.
+ */
+declare module "htmlparser2" {
+    interface Parser {
+        readonly startIndex: number;
+        readonly endIndex: number;
+    }
+}
+
+interface AttributeSource {
+    // offsets are relative to the tag source
+    readonly offset: number;
+    readonly valueOffset: number;
+    readonly snippet: string;
+}
+
+function findAttributeSource(tagSource: string, rawAttrName: string): Option<AttributeSource> {
+    const escapedName = rawAttrName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const m = new RegExp(
+        "\\s" + escapedName + "(?=[\\s=/>])(?:\\s*=\\s*(\"[^\"]*\"|'[^']*'|[^\\s>]+))?",
+        "i").exec(tagSource);
+    if (!m) {
+        return Option.none<AttributeSource>();
+    }
+    const offset = m.index + 1;
+    const snippet = m[0].substring(1);
+    const value = m[1] || "";
+    const isQuoted = value.startsWith('"') || value.startsWith("'");
+    return Option.of({
+        offset, snippet,
+        valueOffset: offset + snippet.length - value.length + (isQuoted ? 1 : 0)
+    });
+}
+
+/**
+ * Split generated source in chunks: the variable declarations
+ * generated through the codegen helper have a more precise location
+ * than the whole source, which is tied to the view element.
+ */
+function splitChunk(source: string, location: Option<ViewSourceLocation>,
+                    declarations: GeneratedDeclaration[]): Vector<SourceChunk> {
+    let result = Vector.of<SourceChunk>();
+    let cursor = 0;
+    declarations.forEach(decl => {
+        const idx = source.indexOf(decl.source, cursor);
+        if (idx < 0) {
+            // the directive handler didn't include the declaration as-is.
+            return;
+        }
+        result = result
+            .append({source: source.substring(cursor, idx), location})
+            .append({source: decl.source, location: decl.location.orElse(location)});
+        cursor = idx + decl.source.length;
+    });
+    return result.append({source: source.substring(cursor), location});
+}
+
 var v: number = 0;
 
 function extractInlineExpressions(ngFilters: Vector<NgFilter>,
-    text: string, codegenHelpers: CodegenHelper): string {
+    text: string, textOffset: Option<number>, locate: Locator,
+    codegenHelpers: CodegenHelper, reportDiagnostics: DiagnosticsReporter): Vector<SourceChunk> {
     const re = /{{(.+?)}}/g; // anything inside {{}}, multiple times
     let m: RegExpExecArray|null;
-    let result: string = "";
+    let result = Vector.of<SourceChunk>();
     while (m = re.exec(text)) {
         const expr: string = m[1];
-        result += filterExpressionToTypescript(expr, codegenHelpers);
+        const snippet = m[0];
+        const exprOffset = m.index;
+        const declCount = codegenHelpers.declarations.length;
+        const diagCount = codegenHelpers.diagnostics.length;
+        const location = textOffset.flatMap(o => locate(o + exprOffset, snippet));
+        result = result.appendAll(splitChunk(
+            filterExpressionToTypescript(expr, codegenHelpers),
+            location, codegenHelpers.declarations.slice(declCount)));
+        reportDiagnostics(codegenHelpers, diagCount, location);
     }
     return result;
 }
@@ -74,48 +269,169 @@ function handleDirectiveResponses(xpath: Vector<string>,
             }));
 }
 
+function isNgTemplate(tagName: string, attribs: {[type:string]: string}): boolean {
+    return tagName === "script" && (attribs["type"] || "").toLowerCase() === "text/ng-template";
+}
+
+/**
+ * @hidden
+ * Find the templates declared in a view through
+ * `<script type="text/ng-template" id="...">`.
+ * @returns the templates, by id
+ */
+export function findNgTemplates(fileName: string, contents: string): Vector<[string, ParserInput]> {
+    const re = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+    let m: RegExpExecArray|null;
+    let result = Vector.of<[string, ParserInput]>();
+    while (m = re.exec(contents)) {
+        const attrs = m[1];
+        const id = /\sid\s*=\s*(?:"([^"]*)"|'([^']*)')/i.exec(attrs);
+        if (!id || !/\stype\s*=\s*["']?text\/ng-template\b/i.test(attrs)) {
+            continue;
+        }
+        const offset = m.index + m[0].indexOf(">") + 1;
+        const linesBefore = contents.substring(0, offset).split("\n");
+        const template: ParserInput = {
+            fileName, contents: m[2],
+            line: linesBefore.length,
+            column: linesBefore[linesBefore.length-1].length + 1
+        };
+        result = result.append([id[1] !== undefined ? id[1] : id[2], template]);
+    }
+    return result;
+}
+
+// the literal url given to ng-include, if any. We can't follow
+// the urls which are computed.
+function getIncludeUrl(tagName: string, attribs: {[type:string]: string}): Option<string> {
+    const val = tagName === "ng-include" ? attribs["src"] : attribs["ng-include"];
+    const m = /^\s*(?:'([^']*)'|"([^"]*)")\s*$/.exec(val || "");
+    return m ? Option.of(m[1] !== undefined ? m[1] : m[2]) : Option.none<string>();
+}
+
+function parseIncludedTemplate(
+    url: string, template: ParserInput, scopes: Vector<NgScope>, xpath: Vector<string>,
+    tagDirectiveHandlers: Vector<TagDirectiveHandler>,
+    attrDirectiveHandlers: Vector<AttributeDirectiveHandler>,
+    ngFilters: Vector<NgFilter>, resolveTemplate: TemplateResolver,
+    includeChain: Vector<string>): ParsedView {
+    let result = <ParsedView|undefined>undefined;
+    const parser: Parser = new Parser(getHandler(
+        template.fileName, scopes, xpath,
+        tagDirectiveHandlers, attrDirectiveHandlers, ngFilters,
+        resolveTemplate, includeChain.append(url),
+        template.contents,
+        () => parser, getLocator([template]),
+        view => { result = view; }));
+    parser.write(template.contents);
+    parser.done();
+    // the html parser is synchronous
+    const included = requireDefined(result);
+    return {...included, includedFiles: included.includedFiles.prepend(template.fileName)};
+}
+
 function getHandler(
-    fileName: string, defaultScope: string[],
+    fileName: string, initialScopes: Vector<NgScope>, initialXpath: Vector<string>,
     tagDirectiveHandlers: Vector<TagDirectiveHandler>,
     attrDirectiveHandlers: Vector<AttributeDirectiveHandler>,
-    ngFilters: Vector<NgFilter>,
-    f: (expr: string) => void): Handler {
-    let expressions: string = "";
-    let xpath = Vector.of<string>();
-    let activeScopes = Vector.ofIterable<NgScope>([{
-        xpathDepth: 0,
-        closeSource: ()=>"",
-        variables: defaultScope
-    }]);
+    ngFilters: Vector<NgFilter>, resolveTemplate: TemplateResolver,
+    includeChain: Vector<string>,
+    input: string, getPosition: ()=>Parser, locate: Locator,
+    f: (view: ParsedView) => void): Handler {
+    let chunks = Vector.of<SourceChunk>();
+    let diagnostics = Vector.of<ViewDiagnostic>();
+    let includedFiles = Vector.of<string>();
+    // included templates start within the including element
+    let xpath = initialXpath;
+    // the xpath depth of the ng-non-bindable element (or ng-template
+    // script) we're in, if any: angular doesn't compile that element
+    // nor its contents.
+    let nonBindableDepth = Option.none<number>();
+    let activeScopes = initialScopes;
     const getNewVariableName = () => `___x${v++}`;
+    const addChunk = (source: string, location: Option<ViewSourceLocation>,
+                      declarations: GeneratedDeclaration[]) => {
+        chunks = chunks.appendAll(splitChunk(source, location, declarations));
+    };
+    const addDiagnostic = (diagnostic: ViewDiagnostic) => {
+        diagnostics = diagnostics.append(diagnostic);
+    };
+    const reportDiagnostics = (handler: string|undefined): DiagnosticsReporter =>
+        (codegenHelpers, fromIdx, location) =>
+            codegenHelpers.diagnostics.slice(fromIdx).forEach(d => addDiagnostic({
+                ...d,
+                fileName: location.map(l => l.fileName).getOrElse(fileName),
+                location: location.getOrUndefined(),
+                handler
+            }));
     return {
         onopentag: (_name: string, _attribs:{[type:string]: string}) => {
             const name = normalizeTagAttrName(_name);
             const attribs:{[type:string]: string} = {};
+            const rawAttrNames:{[type:string]: string} = {};
             for (let k in _attribs) {
                 attribs[normalizeTagAttrName(k)] = _attribs[k];
+                rawAttrNames[normalizeTagAttrName(k)] = k;
             }
             xpath = xpath.append(name);
+            if (nonBindableDepth.isSome()) {
+                return;
+            }
+            // the templates are checked where they're included
+            if (attribs["ng-non-bindable"] !== undefined || isNgTemplate(name, attribs)) {
+                nonBindableDepth = Option.of(xpath.length());
+                return;
+            }
+            const tagPosition = getPosition();
+            const tagSource = input.substring(tagPosition.startIndex, tagPosition.endIndex+1);
+            const attrSources:{[type:string]: Option<AttributeSource>} = {};
+            for (let attrName in attribs) {
+                attrSources[attrName] = findAttributeSource(tagSource, rawAttrNames[attrName]);
+            }
+            // locate a value that a directive handler gave to
+            // the codegen helper, within an attribute value
+            const locateInAttribute = (attrName: string, val: string) => {
+                const idx = attribs[attrName].indexOf(val);
+                return attrSources[attrName]
+                    .filter(_ => idx >= 0)
+                    .flatMap(a => locate(tagPosition.startIndex + a.valueOffset + idx, a.snippet));
+            };
 
             // work on tag handlers
-            const codegenHelpersTag = new CodegenHelper(ngFilters, activeScopes, getNewVariableName);
+            const codegenHelpersTag = new CodegenHelper(
+                ngFilters, activeScopes, getNewVariableName,
+                val => Vector.ofIterable(Object.keys(attribs))
+                    .find(attrName => attribs[attrName].indexOf(val) >= 0)
+                    .flatMap(attrName => locateInAttribute(attrName, val)));
 
+            const tagLocation = locate(tagPosition.startIndex, "<" + _name + ">");
             if (tagDirectiveHandlers
                 .filter(d => d.forTags.indexOf(name) >= 0).isEmpty() && name.startsWith("ng-")) {
-                console.warn("Warning: unhandled tag: " + name);
+                addDiagnostic({
+                    severity: "warning", code: "unhandled-tag", message: "unhandled tag: " + name,
+                    fileName: tagLocation.map(l => l.fileName).getOrElse(fileName),
+                    location: tagLocation.getOrUndefined()
+                });
             }
             const relevantTagHandlers = tagDirectiveHandlers
                 .filter(d => d.forTags.length === 0 || d.forTags.indexOf(name) >= 0);
             const tagDirectiveResps = listKeepDefined(relevantTagHandlers.map(
                 handler => handler.handleTag(name, attribs, codegenHelpersTag)));
-            expressions += tagDirectiveResps.map(x => x.source).mkString("");
+            addChunk(tagDirectiveResps.map(x => x.source).mkString(""), tagLocation,
+                     codegenHelpersTag.declarations);
+            reportDiagnostics(name)(codegenHelpersTag, 0, tagLocation);
             activeScopes = activeScopes.appendAll(
                 handleDirectiveResponses(xpath, codegenHelpersTag, tagDirectiveResps));
 
             // work on attribute handlers
             for (let attrName in attribs) {
-                const codegenHelpersAttr = new CodegenHelper(ngFilters, activeScopes, getNewVariableName);
+                const codegenHelpersAttr = new CodegenHelper(
+                    ngFilters, activeScopes, getNewVariableName,
+                    val => locateInAttribute(attrName, val));
                 const attrValue = attribs[attrName];
+                const attrSource = attrSources[attrName];
+                const attrLocation = attrSource.flatMap(
+                    a => locate(tagPosition.startIndex + a.offset, a.snippet));
 
                 const handlers = attrDirectiveHandlers
                     .filter(d => d.forAttributes.indexOf(attrName) >= 0);
@@ -123,41 +439,92 @@ function getHandler(
                 if (!handlers.isEmpty()) {
                     const attrDirectiveResps = listKeepDefined(
                         handlers.map(handler => handler.handleAttribute(attrName, attrValue, attribs, codegenHelpersAttr)));
-                    expressions += attrDirectiveResps.map(x => x.source).mkString("");
+                    addChunk(attrDirectiveResps.map(x => x.source).mkString(""), attrLocation,
+                             codegenHelpersAttr.declarations);
+                    reportDiagnostics(attrName)(codegenHelpersAttr, 0, attrLocation);
 
                     activeScopes = activeScopes.appendAll(
                         handleDirectiveResponses(xpath, codegenHelpersAttr, attrDirectiveResps));
                 } else if (attrName.startsWith("ng-") &&
-                           !relevantTagHandlers.find(th => th.canHandleAttributes.indexOf(attrName) >= 0)) {
-                    console.warn("Warning: unhandled attribute: " + attrName);
+                           !relevantTagHandlers.anyMatch(th => th.canHandleAttributes.indexOf(attrName) >= 0)) {
+                    addDiagnostic({
+                        severity: "warning", code: "unhandled-attribute",
+                        message: "unhandled attribute: " + attrName,
+                        fileName: attrLocation.map(l => l.fileName).getOrElse(fileName),
+                        location: attrLocation.getOrUndefined()
+                    });
                 }
-                expressions += extractInlineExpressions(ngFilters, attrValue, codegenHelpersAttr);
+                chunks = chunks.appendAll(extractInlineExpressions(
+                    ngFilters, attrValue,
+                    attrSource.map(a => tagPosition.startIndex + a.valueOffset),
+                    locate, codegenHelpersAttr, reportDiagnostics(undefined)));
             }
+
+            // check the included template with the scope of the element,
+            // but not templates including themselves.
+            getIncludeUrl(name, attribs)
+                .filter(url => !includeChain.contains(url))
+                .ifPresent(url => {
+                    const template = resolveTemplate(url);
+                    if (template.isNone()) {
+                        const includeLocation = attrSources[name === "ng-include" ? "src" : "ng-include"]
+                            .flatMap(a => locate(tagPosition.startIndex + a.offset, a.snippet));
+                        addDiagnostic({
+                            severity: "warning", code: "unresolved-include",
+                            message: "can't find the included template: " + url,
+                            fileName: includeLocation.map(l => l.fileName).getOrElse(fileName),
+                            location: includeLocation.getOrUndefined()
+                        });
+                        return;
+                    }
+                    const included = parseIncludedTemplate(
+                        url, template.getOrThrow(), activeScopes, xpath,
+                        tagDirectiveHandlers, attrDirectiveHandlers, ngFilters,
+                        resolveTemplate, includeChain);
+                    chunks = chunks.appendAll(included.chunks);
+                    diagnostics = diagnostics.appendAll(included.diagnostics);
+                    includedFiles = includedFiles.appendAll(included.includedFiles);
+                });
         },
         onclosetag: (name: string) => {
+            const closeLocation = locate(getPosition().startIndex, "</" + name + ">");
             if (xpath.last().getOrUndefined() !== name) {
-                console.error(`${fileName}: expected </${xpath.last().getOrUndefined()}> but found </${name}>`);
+                addDiagnostic({
+                    severity: "error", code: "mismatched-close-tag",
+                    message: `expected </${xpath.last().getOrUndefined()}> but found </${name}>`,
+                    fileName: closeLocation.map(l => l.fileName).getOrElse(fileName),
+                    location: closeLocation.getOrUndefined()
+                });
             }
             xpath = xpath.dropRight(1);
+            if (nonBindableDepth.filter(depth => depth > xpath.length()).isSome()) {
+                nonBindableDepth = Option.none<number>();
+            }
             var firstScope = activeScopes.last().getOrUndefined();
             while (firstScope && firstScope.xpathDepth > xpath.length()) {
-                expressions += firstScope.closeSource();
+                addChunk(firstScope.closeSource(), closeLocation, []);
                 activeScopes = activeScopes.dropRight(1);
                 firstScope = activeScopes.last().getOrUndefined();
             }
         },
         ontext: (text: string) => {
+            if (nonBindableDepth.isSome()) {
+                return;
+            }
             const codegenHelpers = new CodegenHelper(ngFilters, activeScopes, getNewVariableName);
-            expressions = expressions.concat(
-                extractInlineExpressions(ngFilters, text, codegenHelpers));
+            // the parser's endIndex is the position of the last character of the text.
+            const textOffset = getPosition().endIndex - text.length + 1;
+            chunks = chunks.appendAll(extractInlineExpressions(
+                ngFilters, text, Option.of(textOffset), locate, codegenHelpers,
+                reportDiagnostics(undefined)));
         },
         onend: () => {
-            f(indentSource(expressions));
+            f({chunks, diagnostics, includedFiles});
         }
     };
 }
 
-function indentSource(src: string): string {
+function indentSource(chunks: Vector<SourceChunk>): Pick<GeneratedView, "source"|"mappings"> {
     const multiple: number = 4;
     let depth: number = 1;
     let inSingleQuotes: boolean = false;
@@ -165,62 +532,89 @@ function indentSource(src: string): string {
     let previousIsEndBlock = false;
     const addCr: ()=>string = () => "\n" + " ".repeat(depth*multiple);
     let result: string = " ".repeat(depth*multiple);
-    for (let i:number = 0;i<src.length;i++) {
-        const chr = src[i];
-        if (previousIsEndBlock && [';', ')'].indexOf(chr)<0) {
-            result += addCr();
-        }
-        previousIsEndBlock = false;
-        if (inSingleQuotes) {
-            if (chr === "'") {
-                inSingleQuotes = false;
+    let mappings = Vector.of<ViewSourceMapping>();
+    chunks.forEach(chunk => {
+        const src = chunk.source;
+        const start = result.length;
+        for (let i:number = 0;i<src.length;i++) {
+            const chr = src[i];
+            if (previousIsEndBlock && [';', ')'].indexOf(chr)<0) {
+                result += addCr();
             }
-            result += chr;
-        } else if (inDoubleQuotes) {
-            if (chr === '"') {
-                inDoubleQuotes = false;
-            }
-            result += chr;
-        } else {
-            if (chr === "'") {
-                result += "'";
-                inSingleQuotes = true;
-            } else if (chr === '"') {
-                result += '"';
-                inDoubleQuotes = true;
-            } else if (chr === ';') {
-                result += ";" + addCr();
-            } else if (chr === '{') {
-                ++depth;
-                result += "{" + addCr();
-            } else if (chr === '}') {
-                --depth;
-                result +=  addCr() + "}";
-                previousIsEndBlock = true;
-            } else {
+            previousIsEndBlock = false;
+            if (inSingleQuotes) {
+                if (chr === "'") {
+                    inSingleQuotes = false;
+                }
                 result += chr;
+            } else if (inDoubleQuotes) {
+                if (chr === '"') {
+                    inDoubleQuotes = false;
+                }
+                result += chr;
+            } else {
+                if (chr === "'") {
+                    result += "'";
+                    inSingleQuotes = true;
+                } else if (chr === '"') {
+                    result += '"';
+                    inDoubleQuotes = true;
+                } else if (chr === ';') {
+                    result += ";" + addCr();
+                } else if (chr === '{') {
+                    ++depth;
+                    result += "{" + addCr();
+                } else if (chr === '}') {
+                    --depth;
+                    result +=  addCr() + "}";
+                    previousIsEndBlock = true;
+                } else {
+                    result += chr;
+                }
             }
         }
-    }
-    return result;
+        if (src.length > 0 && chunk.location.isSome()) {
+            mappings = mappings.append({start, end: result.length, location: chunk.location.getOrThrow()});
+        }
+    });
+    return {source: result, mappings};
 }
 
 /**
  * @hidden
  */
 export function parseView(
-    resolveImportsAsNonScope: boolean, fileName: string, viewFragments: string[],
-    importNames: string[],
+    resolveImportsAsNonScope: boolean, fileName: string, viewFragments: CtrlViewFragment[],
+    importNames: string[], controllerAliases: string[],
     tagDirectiveHandlers: Vector<TagDirectiveHandler>,
     attrDirectiveHandlers: Vector<AttributeDirectiveHandler>,
-    ngFilters: Vector<NgFilter>) : Promise<string> {
-    const defaultScope = resolveImportsAsNonScope ? importNames : [];
-    return new Promise<string>((resolve, reject) => {
-        const parser = new Parser(getHandler(
-            fileName, defaultScope,
-            tagDirectiveHandlers, attrDirectiveHandlers, ngFilters, resolve));
-        parser.write(readFileSync(fileName).toString());
-        viewFragments.forEach(f => parser.write(f));
+    ngFilters: Vector<NgFilter>,
+    resolveTemplate: TemplateResolver = _ => Option.none<ParserInput>(),
+    view?: ParserInput) : Promise<GeneratedView> {
+    // the controllerAs aliases are parameters of the viewtest function,
+    // not members of the scope.
+    const defaultScope = (resolveImportsAsNonScope ? importNames : []).concat(controllerAliases);
+    // the view may also be a template declared in another view
+    const inputs: ParserInput[] = [view || {fileName, contents: readFileSync(fileName).toString(), line: 1, column: 1}]
+        .concat(viewFragments.map(f => ({
+            fileName: f.fileName, contents: f.source, line: f.line, column: f.column})));
+    return new Promise<GeneratedView>((resolve, reject) => {
+        const parser: Parser = new Parser(getHandler(
+            fileName, Vector.ofIterable<NgScope>([{
+                xpathDepth: 0,
+                closeSource: ()=>"",
+                variables: defaultScope
+            }]), Vector.of<string>(),
+            tagDirectiveHandlers, attrDirectiveHandlers, ngFilters,
+            resolveTemplate, Vector.of<string>(),
+            inputs.map(i => i.contents).join(""),
+            () => parser, getLocator(inputs),
+            parsed => resolve({
+                ...indentSource(parsed.chunks),
+                diagnostics: parsed.diagnostics,
+                includedFiles: parsed.includedFiles
+            })));
+        inputs.forEach(i => parser.write(i.contents));
         parser.done();
     });
 }
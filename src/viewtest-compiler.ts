@@ -0,0 +1,160 @@
+import * as ts from "typescript";
+import {join, relative} from "path";
+import {Vector} from "prelude.ts";
+
+import {ViewSourceMapping, ViewSourceLocation} from "./view-parser"
+import {ViewDiagnostic} from "./diagnostics"
+
+/**
+ * @hidden
+ * A viewtest file which was written on disk, with the mappings
+ * between its source and the view elements it was generated from,
+ * and the problems met while generating it.
+ */
+export interface GeneratedViewtest {
+    readonly fileName: string;
+    readonly mappings: Vector<ViewSourceMapping>;
+    readonly diagnostics: Vector<ViewDiagnostic>;
+    /**
+     * The files the view was read from: the view (or the view declaring
+     * it through `<script type="text/ng-template">`), and the templates
+     * it includes.
+     */
+    readonly viewFiles: Vector<string>;
+}
+
+/**
+ * A type error found when compiling the viewtests.
+ * See [[ProjectSettings.compileViewtests]].
+ */
+export interface ViewTypeError {
+    /**
+     * The message from the typescript compiler
+     */
+    readonly message: string;
+    /**
+     * The view element (attribute, tag or `{{}}` block) which
+     * failed to type-check. Undefined if the error is not in code
+     * generated from a view element (for instance if it's in the
+     * scope interface copied from the controller).
+     */
+    readonly location?: ViewSourceLocation;
+    /**
+     * The viewtest file in which the error was found
+     */
+    readonly viewtestFileName: string;
+    /**
+     * Line of the error in the viewtest file (1-based)
+     */
+    readonly viewtestLine: number;
+    /**
+     * Column of the error in the viewtest file (1-based)
+     */
+    readonly viewtestColumn: number;
+}
+
+/**
+ * Format a [[ViewTypeError]] for display. The error is reported
+ * against the view if possible, against the viewtest file otherwise.
+ * For instance: `user-list.html:42:13 ng-if="user.isAdmin": Property 'isAdmin' does not exist...`
+ * @param error the error to format
+ * @returns a one-line description of the error
+ */
+export function formatViewTypeError(error: ViewTypeError): string {
+    if (error.location) {
+        return `${error.location.fileName}:${error.location.line}:${error.location.column} ` +
+            `${error.location.snippet}: ${error.message}`;
+    }
+    return `${error.viewtestFileName}:${error.viewtestLine}:${error.viewtestColumn}: ${error.message}`;
+}
+
+/**
+ * @hidden
+ * The files & options to compile the project with: those from its
+ * tsconfig.json if it has one, otherwise all its typescript files.
+ */
+export function getProgramSettings(projectPath: string, projectFiles: string[])
+    : {rootNames: string[], options: ts.CompilerOptions} {
+    const configPath = join(projectPath, "tsconfig.json");
+    if (ts.sys.fileExists(configPath)) {
+        const config = ts.readConfigFile(configPath, ts.sys.readFile);
+        const parsed = ts.parseJsonConfigFileContent(config.config, ts.sys, projectPath);
+        parsed.options.noEmit = true;
+        return {rootNames: parsed.fileNames, options: parsed.options};
+    }
+    // no tsconfig.json => compile all the typescript files of the project
+    // with the default options.
+    return {
+        rootNames: projectFiles.filter(f => f.toLowerCase().endsWith(".ts")),
+        options: {noEmit: true}
+    };
+}
+
+/**
+ * @hidden
+ * Generate the contents of a `tsconfig.json` for a folder containing only
+ * viewtests, so that they compile standalone: it lists the files of the
+ * project (and therefore its typings), and extends the project's own
+ * `tsconfig.json` if there is one, to get the same compiler options.
+ */
+export function generateViewtestsTsconfig(projectPath: string, projectFiles: string[],
+                                          outputDir: string): string {
+    const toOutputRelative = (path: string) => {
+        const relPath = relative(outputDir, path);
+        return relPath.startsWith(".") ? relPath : "./" + relPath;
+    };
+    const configPath = join(projectPath, "tsconfig.json");
+    const config = ts.sys.fileExists(configPath)
+        ? {extends: toOutputRelative(configPath)}
+        : {};
+    return JSON.stringify({
+        ...config,
+        compilerOptions: {noEmit: true},
+        files: getProgramSettings(projectPath, projectFiles).rootNames.map(toOutputRelative),
+        include: ["**/*_viewtest.ts"]
+    }, null, 4) + "\n";
+}
+
+function viewTypeError(viewtest: GeneratedViewtest, sourceFile: ts.SourceFile,
+                       diagnostic: ts.Diagnostic): ViewTypeError {
+    const lineAndChar = sourceFile.getLineAndCharacterOfPosition(diagnostic.start);
+    return {
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+        location: viewtest.mappings
+            .find(m => m.start <= diagnostic.start && diagnostic.start < m.end)
+            .map(m => m.location)
+            .getOrUndefined(),
+        viewtestFileName: viewtest.fileName,
+        viewtestLine: lineAndChar.line + 1,
+        viewtestColumn: lineAndChar.character + 1
+    };
+}
+
+/**
+ * @hidden
+ * Compile the viewtests in-process, along with the project they belong
+ * to (using the project's tsconfig.json if there is one), and return
+ * the errors found in the viewtests.
+ */
+export function compileViewtests(projectPath: string, projectFiles: string[],
+                                 viewtests: Vector<GeneratedViewtest>): ViewTypeError[] {
+    const {rootNames, options} = getProgramSettings(projectPath, projectFiles);
+    const program = ts.createProgram(
+        rootNames.concat(viewtests.map(v => v.fileName).toArray()), options);
+    const errors = viewtests.flatMap(viewtest => {
+        const sourceFile = program.getSourceFile(viewtest.fileName);
+        if (!sourceFile) {
+            return Vector.of<ViewTypeError>();
+        }
+        return Vector.ofIterable(program.getSyntacticDiagnostics(sourceFile))
+            .appendAll(program.getSemanticDiagnostics(sourceFile))
+            .map(d => viewTypeError(viewtest, sourceFile, d));
+    });
+    // directives may generate several statements from the same expression
+    // (for instance ng-if), which then fail in the same way: report only
+    // once per view element.
+    const errorKeys = errors.map(err => err.location
+        ? [err.location.fileName, err.location.line, err.location.snippet, err.message].join(":")
+        : formatViewTypeError(err)).toArray();
+    return errors.toArray().filter((err, idx) => errorKeys.indexOf(errorKeys[idx]) === idx);
+}
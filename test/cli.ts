@@ -0,0 +1,56 @@
+import * as assert from 'assert'
+import {parseArguments, getProjectSettings} from '../src/cli'
+import {configToProjectSettings} from "../src/config"
+import {ViewDiagnostic} from "../src/diagnostics"
+import {NgFilter} from "../src/filters"
+import {defaultTagDirectiveHandlers} from "../src/ng-directives"
+
+describe("parseArguments", () => {
+    it("should parse the command and options", () => {
+        assert.deepEqual(
+            {command: "check", path: "src/webapp", exclude: ["lib/**", "dist/**"], config: undefined, outDir: undefined, watch: false},
+            parseArguments(["check", "--path", "src/webapp", "--exclude", "lib/**", "--exclude", "dist/**"]));
+        assert.deepEqual(
+            {command: "clean", path: undefined, exclude: [], config: "my-config.json", outDir: undefined, watch: false},
+            parseArguments(["--config", "my-config.json", "clean"]));
+        assert.deepEqual(
+            {command: "generate", path: undefined, exclude: [], config: undefined,
+             outDir: "build/viewtests", watch: true},
+            parseArguments(["generate", "--watch", "--out-dir", "build/viewtests"]));
+    });
+    it("should reject invalid arguments", () => {
+        assert.throws(() => parseArguments([]), /Missing command/);
+        assert.throws(() => parseArguments(["build"]), /Unknown command: build/);
+        assert.throws(() => parseArguments(["check", "--path"]), /Missing value for --path/);
+        assert.throws(() => parseArguments(["check", "--verbose"]), /Unknown option: --verbose/);
+        assert.throws(() => parseArguments(["clean", "--watch"]), /--watch is not supported/);
+    });
+});
+
+describe("getProjectSettings", () => {
+    it("should merge the configuration file and the command-line", () => {
+        const settings = getProjectSettings(parseArguments(
+            ["generate", "--config", "test/projects/config/ng-typeview.config.json", "--exclude", "dist/**"]));
+        assert.equal("test/projects/config/webapp", settings.path);
+        assert.deepEqual(["lib/**", "dist/**"], settings.blacklistedPaths);
+        assert.deepEqual([new NgFilter("formatNumber", "(input: string, formatType: 'hex'|'dec') => string")]
+                         .map(f => [f.name, f.type]),
+                         settings.ngFilters.map(f => [f.name, f.type]));
+        assert.ok(settings.ngFilters[0] instanceof NgFilter);
+        assert.equal(true, settings.sourceMaps);
+        assert.equal("test/projects/config/build/viewtests", settings.outputDir);
+        assert.deepEqual(defaultTagDirectiveHandlers, settings.tagDirectives);
+    });
+});
+
+describe("configToProjectSettings", () => {
+    it("should keep the diagnostics hook of the configuration", () => {
+        const onDiagnostic = (diagnostic: ViewDiagnostic) => {
+            if (diagnostic.code === "unknown-filter") {
+                throw "unknown filter";
+            }
+        };
+        const settings = configToProjectSettings({onDiagnostic}, "test/projects/config");
+        assert.equal(onDiagnostic, settings.onDiagnostic);
+    });
+});
@@ -5,6 +5,14 @@ import {extractControllerScopeInfo, ControllerScopeInfo,
         ControllerViewInfo,
         defaultCtrlViewConnectors, defaultModelViewConnectors} from '../src/controller-parser'
 import * as ts from "typescript";
+import {sync} from "glob";
+import {dirname} from "path";
+import {createProgramLoader} from "../src/scope-resolver"
+
+// the type checker sees the typescript files of the folder of the file
+function folderProgram(fileName: string): () => ts.Program {
+    return createProgramLoader(dirname(fileName), sync(dirname(fileName) + "/*.ts"));
+}
 
 const ctrlViewConn = {
     interceptAstNode: ts.SyntaxKind.CallExpression,
@@ -31,18 +39,21 @@ describe("extractModalOpenAngularModule", () => {
         const modalModuleInfo = await extractCtrlViewConnsAngularModule(
             "test/data/test-ctrl.ts", "webapp",
             defaultCtrlViewConnectors.concat([ctrlViewConn]),
-            defaultModelViewConnectors);
+            defaultModelViewConnectors,
+            folderProgram("test/data/test-ctrl.ts"));
         assert.equal("test/data/test-ctrl.ts", modalModuleInfo.fileName);
         assert.deepEqual(Option.of("my.ng.module.name"), modalModuleInfo.ngModuleName);
         assert.deepEqual(Option.of("ControllerName"), modalModuleInfo.controllerName);
         assert.deepEqual([
             {
                 controllerName: "CtrlState1",
-                viewPath: "app/view/url1.html"
+                viewPath: "app/view/url1.html",
+                uiRouterState: "my.second.state"
             },
             {
                 controllerName: "CtrlState2",
-                viewPath: "app/view/url2.html"
+                viewPath: "app/view/url2.html",
+                uiRouterState: "my.third.state"
             },
             {
                 controllerName: "ControllerName",
@@ -57,6 +68,200 @@ describe("extractModalOpenAngularModule", () => {
                 viewPath: "and/yet/another/view.html"
             }], modalModuleInfo.controllerViewInfos);
     });
+    it("should recognize the controllerAs syntax", async () => {
+        const viewInfo = await extractCtrlViewConnsAngularModule(
+            "test/projects/controlleras/user-ctrl.ts", "webapp",
+            defaultCtrlViewConnectors, defaultModelViewConnectors,
+            folderProgram("test/projects/controlleras/user-ctrl.ts"));
+        assert.deepEqual(Option.of("UserCtrl"), viewInfo.controllerClassName);
+        assert.deepEqual([
+            {
+                controllerName: "UserCtrl",
+                viewPath: "user-view.html",
+                controllerAs: "vm"
+            },
+            {
+                controllerName: "UserCtrl",
+                viewPath: "user-list.html",
+                controllerAs: "ctrl",
+                uiRouterState: "users"
+            }], viewInfo.controllerViewInfos);
+    });
+    it("should recognize components", async () => {
+        const viewInfo = await extractCtrlViewConnsAngularModule(
+            "test/projects/component/user-card.ts", "webapp",
+            defaultCtrlViewConnectors, defaultModelViewConnectors,
+            folderProgram("test/projects/component/user-card.ts"));
+        assert.deepEqual([
+            {
+                modelPath: "test/projects/component/user-card.ts",
+                viewPath: "user-card.html",
+                controllerAs: "$ctrl",
+                controllerClassName: "UserCardCtrl"
+            }], viewInfo.modelViewInfos);
+    });
+    it("should recognize the bindings of directives", async () => {
+        const componentInfo = await extractCtrlViewConnsAngularModule(
+            "test/projects/bindings/user-card.ts", "webapp",
+            defaultCtrlViewConnectors, defaultModelViewConnectors,
+            folderProgram("test/projects/bindings/user-card.ts"));
+        assert.deepEqual([
+            {
+                directivePath: "test/projects/bindings/user-card.ts",
+                directiveName: "userCard",
+                restrict: "E",
+                typeName: Option.of("UserCardCtrl"),
+                bindings: [
+                    {name: "user", attrName: "user", mode: "<"},
+                    {name: "title", attrName: "title", mode: "@"},
+                    {name: "size", attrName: "size", mode: "@"},
+                    {name: "onSelect", attrName: "onSelect", mode: "&"}
+                ]
+            }], componentInfo.directiveBindings);
+        const directiveInfo = await extractCtrlViewConnsAngularModule(
+            "test/projects/bindings/highlight.ts", "webapp",
+            defaultCtrlViewConnectors, defaultModelViewConnectors,
+            folderProgram("test/projects/bindings/highlight.ts"));
+        assert.deepEqual([
+            {
+                directivePath: "test/projects/bindings/highlight.ts",
+                directiveName: "highlight",
+                restrict: "A",
+                typeName: Option.none<string>(),
+                bindings: [
+                    {name: "active", attrName: "highlight", mode: "="},
+                    {name: "color", attrName: "highlightColor", mode: "@"}
+                ]
+            }], directiveInfo.directiveBindings);
+    });
+    it("should recognize the ui-router states", async () => {
+        const viewInfo = await extractCtrlViewConnsAngularModule(
+            "test/projects/states/shell-ctrl.ts", "webapp",
+            defaultCtrlViewConnectors, defaultModelViewConnectors,
+            folderProgram("test/projects/states/shell-ctrl.ts"));
+        assert.deepEqual([
+            {
+                name: "app",
+                parent: Option.none<string>(),
+                abstract: true,
+                views: [{viewName: "", controllerName: Option.of("ShellCtrl"),
+                         controllerAs: Option.none<string>(), templateUrl: Option.of("shell.html")}],
+                resolve: ["currentUser"]
+            },
+            {
+                name: "app.users",
+                parent: Option.of("app"),
+                abstract: false,
+                views: [{viewName: "", controllerName: Option.of("UsersCtrl"),
+                         controllerAs: Option.none<string>(), templateUrl: Option.of("users.html")}],
+                resolve: []
+            },
+            {
+                name: "details",
+                parent: Option.of("app.users"),
+                abstract: false,
+                views: [{viewName: "detail@app.users", controllerName: Option.of("UserDetailCtrl"),
+                         controllerAs: Option.of("vm"), templateUrl: Option.of("user-detail.html")},
+                        {viewName: "toolbar@", controllerName: Option.of("ToolbarCtrl"),
+                         controllerAs: Option.none<string>(), templateUrl: Option.of("toolbar.html")}],
+                resolve: []
+            }], viewInfo.uiRouterStates);
+        assert.deepEqual([
+            {controllerName: "ShellCtrl", viewPath: "shell.html", uiRouterState: "app"},
+            {controllerName: "UsersCtrl", viewPath: "users.html", uiRouterState: "app.users"},
+            {controllerName: "UserDetailCtrl", viewPath: "user-detail.html", controllerAs: "vm",
+             uiRouterState: "details", uiRouterView: "detail@app.users"},
+            {controllerName: "ToolbarCtrl", viewPath: "toolbar.html",
+             uiRouterState: "details", uiRouterView: "toolbar@"}
+        ], viewInfo.controllerViewInfos);
+    });
+    it("should recognize the ngRoute routes", async () => {
+        const viewInfo = await extractCtrlViewConnsAngularModule(
+            "test/projects/routes/users-ctrl.ts", "webapp",
+            defaultCtrlViewConnectors, defaultModelViewConnectors,
+            folderProgram("test/projects/routes/users-ctrl.ts"));
+        assert.deepEqual([
+            {
+                controllerName: "UsersCtrl",
+                viewPath: "users.html",
+                controllerAs: "vm",
+                resolve: ["currentUser"]
+            },
+            {
+                controllerName: "UserCtrl",
+                viewPath: "user.html",
+                controllerAs: "ctrl"
+            }], viewInfo.controllerViewInfos);
+        const otherwiseInfo = await extractCtrlViewConnsAngularModule(
+            "test/projects/routes/user-ctrl.ts", "webapp",
+            defaultCtrlViewConnectors, defaultModelViewConnectors,
+            folderProgram("test/projects/routes/user-ctrl.ts"));
+        assert.deepEqual([{controllerName: "UserCtrl", viewPath: "not-found.html"}],
+                         otherwiseInfo.controllerViewInfos);
+    });
+    it("should recognize the modals from the type of the modal service", async () => {
+        const viewInfo = await extractCtrlViewConnsAngularModule(
+            "test/projects/modals/users-ctrl.ts", "test/projects/modals",
+            defaultCtrlViewConnectors, defaultModelViewConnectors,
+            folderProgram("test/projects/modals/users-ctrl.ts"));
+        assert.deepEqual([
+            {
+                controllerName: "EditUserCtrl",
+                viewPath: "edit-user.html",
+                controllerAs: "vm"
+            },
+            {
+                controllerName: "ConfirmCtrl",
+                viewPath: "users-ctrl.template25.html",
+                template: {
+                    fileName: "test/projects/modals/users-ctrl.ts",
+                    contents: "<p>{{message}}</p>\n                       <p>{{mesage}}</p>",
+                    line: 25,
+                    column: 24
+                }
+            },
+            {
+                controllerName: "HelpCtrl",
+                viewPath: "help.html"
+            },
+            // through a type alias, an interface extending the modal
+            // service, and a `$inject` assignment
+            {
+                controllerName: "HelpCtrl",
+                viewPath: "about.html"
+            },
+            {
+                controllerName: "ConfirmCtrl",
+                viewPath: "about.html"
+            },
+            {
+                controllerName: "ConfirmCtrl",
+                viewPath: "settings.html"
+            }], viewInfo.controllerViewInfos);
+        assert.deepEqual(["UsersCtrl"], viewInfo.classNames);
+        assert.deepEqual(["userPanel"], viewInfo.componentNames);
+        assert.deepEqual([
+            {componentName: "helpPanel", line: 34, column: 25, snippet: "component: 'helpPanel'"},
+            {componentName: "userPanel", line: 49, column: 25, snippet: "component: 'userPanel'"}
+        ], viewInfo.modalComponents);
+    });
+    it("should only resolve the modal service through the type checker if needed", async () => {
+        const viewInfo = await extractCtrlViewConnsAngularModule(
+            "test/projects/modals/dialogs-ctrl.ts", "test/projects/modals",
+            defaultCtrlViewConnectors, defaultModelViewConnectors,
+            () => { throw new Error("the program should not be built"); });
+        assert.deepEqual([{controllerName: "HelpCtrl", viewPath: "help.html"}],
+                         viewInfo.controllerViewInfos);
+    });
+    it("should recognize the filter registrations", async () => {
+        const viewInfo = await extractCtrlViewConnsAngularModule(
+            "test/projects/filters/shop-filters.ts", "webapp",
+            defaultCtrlViewConnectors, defaultModelViewConnectors,
+            folderProgram("test/projects/filters/shop-filters.ts"));
+        assert.deepEqual(["translate", "discount", "productLabel"].map(filterName => ({
+            filterPath: "test/projects/filters/shop-filters.ts", filterName
+        })), viewInfo.filterRegistrations);
+    });
 });
 
 describe("extractControllerScopeInfo", () => {
@@ -89,4 +294,23 @@ describe("extractControllerScopeInfo", () => {
             ],
             scopeInfo.nonExportedDeclarations);
     });
+    it("should parse the scope info of file-level modules", async () => {
+        const scopeInfo = await extractControllerScopeInfo("test/projects/esmodule/user-ctrl.ts", []);
+        assert.ok(scopeInfo.isFileModule);
+        assert.ok(scopeInfo.tsModuleName.isNone());
+        assert.equal("interface Scope {\n" +
+                     "    user: User;\n" +
+                     "    status: Status;\n" +
+                     "    address: Address;\n" +
+                     "}", scopeInfo.scopeInfo.getOrThrow());
+        assert.deepEqual(
+            [
+                {importClause: "{Status}", moduleSpecifier: "./user-ctrl"},
+                {importClause: "{User}", moduleSpecifier: "./models/user"}
+            ],
+            scopeInfo.moduleImports);
+        assert.deepEqual(["User"], scopeInfo.importNames);
+        assert.deepEqual(["interface Address {\n    city: string;\n}"],
+                         scopeInfo.nonExportedDeclarations);
+    });
 });
@@ -8,11 +8,15 @@ interface Scope extends ng.IScope {
 
 function ___f($scope: Scope, f__translate:(key: string) => string,
     f__linky:(text:string | null, target: '_blank'|'_self'|'_parent'|'_top') => string,
-    f__orderBy:<T, K extends keyof T>(input:T[], field: K) => T[],
+    f__orderBy:<T>(input:T[], expression?: keyof T | ((v:T) => any) | (keyof T | ((v:T) => any))[], reverse?: boolean, comparator?: (v1: {value: any, type: string, index: any}, v2: {value: any, type: string, index: any}) => number) => T[],
     f__filter:<T>(input:T[], p: (((v:T,idx:number,array:T[])=>boolean) | string | { [P in keyof T]?: T[P]; })) => T[],
-    f__limitTo:<T>(input: T[] | string | number, limit: string|number, begin?: string|number) => T[] | string,
-    f__date:(date:Date|string|number, format?: string, timezone?: string)=>string,
+    f__limitTo:{<T>(input: T[], limit: string|number, begin?: string|number): T[]; (input: string|number, limit: string|number, begin?: string|number): string},
+    f__date:{(date: Date|string|number, format?: string, timezone?: string): string; <T extends null|undefined>(date: T, format?: string, timezone?: string): T; (date: Date|string|number|null|undefined, format?: string, timezone?: string): string|null|undefined},
     f__currency:(amount:number|string, symbol?: string, fractionSize?:number)=>string,
+    f__number:(input: number|string|null|undefined, fractionSize?: number|string) => string,
+    f__json:(object: any, spacing?: number) => string,
+    f__lowercase:(input: string|null|undefined) => string,
+    f__uppercase:(input: string|null|undefined) => string,
     f__formatNumber:(input: string, formatType: 'hex'|'dec') => string) {
     const ___x2: any = {
         active: $scope.showDiv
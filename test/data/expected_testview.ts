@@ -37,85 +37,87 @@ interface Scope extends ng.IScope {
 
 function ___f($scope: Scope, f__translate:(key: string) => string,
     f__linky:(text:string | null, target: '_blank'|'_self'|'_parent'|'_top') => string,
-    f__orderBy:<T, K extends keyof T>(input:T[], field: K) => T[],
+    f__orderBy:<T>(input:T[], expression?: keyof T | ((v:T) => any) | (keyof T | ((v:T) => any))[], reverse?: boolean, comparator?: (v1: {value: any, type: string, index: any}, v2: {value: any, type: string, index: any}) => number) => T[],
     f__filter:<T>(input:T[], p: (((v:T,idx:number,array:T[])=>boolean) | string | { [P in keyof T]?: T[P]; })) => T[],
-    f__limitTo:<T>(input: T[] | string | number, limit: string|number, begin?: string|number) => T[] | string,
-    f__date:(date:Date|string|number, format?: string, timezone?: string)=>string,
+    f__limitTo:{<T>(input: T[], limit: string|number, begin?: string|number): T[]; (input: string|number, limit: string|number, begin?: string|number): string},
+    f__date:{(date: Date|string|number, format?: string, timezone?: string): string; <T extends null|undefined>(date: T, format?: string, timezone?: string): T; (date: Date|string|number|null|undefined, format?: string, timezone?: string): string|null|undefined},
     f__currency:(amount:number|string, symbol?: string, fractionSize?:number)=>string,
+    f__number:(input: number|string|null|undefined, fractionSize?: number|string) => string,
+    f__json:(object: any, spacing?: number) => string,
+    f__lowercase:(input: string|null|undefined) => string,
+    f__uppercase:(input: string|null|undefined) => string,
     f__formatNumber:(input: string, formatType: 'hex'|'dec') => string) {
     const ___x4: boolean = $scope.data.showText['five'].function() === 6;
     if ($scope.data.showText['five'].function() === 6) {
         const ___x5: boolean = !$scope.user.wantsData();
         const ___x6: boolean = $scope.showDiv;
         if ($scope.showDiv) {
-            const ___x7: any = ($event: any) => $scope.triggerAction('six');
+            const ___x7: any = ($event: MouseEvent) => $scope.triggerAction('six');
             f__translate('CLICK_ME');
             f__translate('CLICK_ME');
             
         }
         const ___x8: any = $scope.url;
         const ___x9: any = $scope.hash;
-        const ___x10: any = $scope.data.firstname;
-        const ___x11: any = $scope.maxlength;
+        const ___x10 = (___x11: any) => ($scope.data.firstname) = ___x11;
+        const ___x12: any = $scope.maxlength;
         angular.forEach($scope.data.groups, group => {
             let $index = 0;
-            let $first = true;
-            let $middle = true;
-            let $last = true;
-            let $even = true;
-            let $odd = false;
-            const ___x12: any = group.id;
+            let $first = <boolean>true;
+            let $middle = <boolean>true;
+            let $last = <boolean>true;
+            let $even = <boolean>true;
+            let $odd = <boolean>false;
+            const ___x13: any = group.id;
             angular.forEach(group, item => {
                 let $index = 0;
-                let $first = true;
-                let $middle = true;
-                let $last = true;
-                let $even = true;
-                let $odd = false;
-                const ___x13: any = $index;
-                const ___x14: any = item.name + ' ' + $scope.user.wantsData();
-                const ___x15: any = $scope.triggerAction('five');
-                const ___x16: any = $index + 1;
-                const ___x17: any = $first ? "first" : "not first!";
+                let $first = <boolean>true;
+                let $middle = <boolean>true;
+                let $last = <boolean>true;
+                let $even = <boolean>true;
+                let $odd = <boolean>false;
+                const ___x14: any = $index;
+                const ___x15 = (___x16: any) => (item.name + ' ' + $scope.user.wantsData()) = ___x16;
+                const ___x17: any = $scope.triggerAction('five');
+                const ___x18: any = $index + 1;
+                const ___x19: any = $first ? "first" : "not first!";
                 
             });
             f__formatNumber($scope.maxlength, 'hex');
             
         });
-        const ___x18: any = $scope.boolean1 && !$scope.boolean2 || $scope.boolean3;
-        const ___x19: any = 'a' + 2 + 'b';
-        const ___x20: any = $scope.user + '/' + $scope.user;
-        const ___x21: any = 'a' === $scope.user.wantsData() ? 'equal' : 'not equal';
-        const ___x22: any = $scope.boolean1 ? 'str a' : $scope.boolean2 ? 'str b' : 'str c';
-        const ___x23: any = !$scope.boolean1 ? $scope.boolean2 ? 'str b' : 'str c' : 'str a';
-        const ___x24: any = ($scope.card.storedValue / 100).toFixed(2);
+        const ___x20: any = $scope.boolean1 && !$scope.boolean2 || $scope.boolean3;
+        const ___x21: any = 'a' + 2 + 'b';
+        const ___x22: any = $scope.user + '/' + $scope.user;
+        const ___x23: any = 'a' === $scope.user.wantsData() ? 'equal' : 'not equal';
+        const ___x24: any = $scope.boolean1 ? 'str a' : $scope.boolean2 ? 'str b' : 'str c';
+        const ___x25: any = !$scope.boolean1 ? $scope.boolean2 ? 'str b' : 'str c' : 'str a';
+        const ___x26: any = ($scope.card.storedValue / 100).toFixed(2);
         f__limitTo("brown fox jumps over the lazy dog", 10);
         f__limitTo($scope.data.groups, 3);
         angular.forEach(f__orderBy($scope.data.groups, 'field'), group => {
             let $index = 0;
-            let $first = true;
-            let $middle = true;
-            let $last = true;
-            let $even = true;
-            let $odd = false;
+            let $first = <boolean>true;
+            let $middle = <boolean>true;
+            let $last = <boolean>true;
+            let $even = <boolean>true;
+            let $odd = <boolean>false;
             f__translate(f__linky($scope.maintenanceTask.instructions, '_blank'));
-            const ___x25: any = group;
+            const ___x27: any = group;
             
         });
-        angular.forEach(Object.keys($scope.kvData), curKey => {
+        angular.forEach($scope.kvData, (v, k) => {
             let $index = 0;
-            let $first = true;
-            let $middle = true;
-            let $last = true;
-            let $even = true;
-            let $odd = false;
-            const k = curKey;
-             const v = $scope.kvData[curKey];
-            const ___x26: any = k.replaceAll("", "");
-            const ___x27: any = v += 1;
+            let $first = <boolean>true;
+            let $middle = <boolean>true;
+            let $last = <boolean>true;
+            let $even = <boolean>true;
+            let $odd = <boolean>false;
+            const ___x28: any = k.replaceAll("", "");
+            const ___x29: any = v += 1;
             
         });
-        const ___x28: any = $scope.group;
+        const ___x30: any = $scope.group;
         f__filter(f__orderBy($scope.data.groups, 'field'), {
             field: $scope.user
         });
@@ -126,28 +128,28 @@ function ___f($scope: Scope, f__translate:(key: string) => string,
             search:'', selected: $scope.data
         };
         let $item = null;
-        const ___x29: any = $scope.data;
+        const ___x31 = (___x32: any) => ($scope.data) = ___x32;
         $item = f__orderBy($scope.data.groups, 'nameAndCountry')[0];
         f__orderBy($scope.data.groups, 'nameAndCountry').forEach(subtype => {
-            const ___x30: any = subtype.name;
+            const ___x33: any = subtype.name;
             
         });
-        const ___x31: any = $select.selected.firstname;
-        const ___x32: any = $item.firstname;
+        const ___x34: any = $select.selected.firstname;
+        const ___x35: any = $item.firstname;
         
     }
     angular.forEach(f__orderBy($scope.data.groups, 'labelSort'), item => {
-        const ___x33: any = item.subItem;
-        const ___x34: any = item.label;
+        const ___x36: any = item.subItem;
+        const ___x37: any = item.label;
         
     });
-    const ___x35: any = $scope.user;
+    const ___x38 = (___x39: any) => ($scope.user) = ___x39;
     angular.forEach($scope.data.groups, item => {
         f__translate(item.subItem);
-        const ___x36: any = item.id;
+        const ___x40: any = item.id;
         
     });
-    const ___x37: any = $scope.user;
+    const ___x41 = (___x42: any) => ($scope.user) = ___x42;
     switch ($scope.showDiv) {
         case $scope.data.firstname: break;
         case $scope.maxlength: break;
@@ -157,12 +159,12 @@ function ___f($scope: Scope, f__translate:(key: string) => string,
     }
     angular.forEach($scope.data.groups, curGrp => {
         let $index = 0;
-        let $first = true;
-        let $middle = true;
-        let $last = true;
-        let $even = true;
-        let $odd = false;
-        const ___x38: any = curGrp.name;
+        let $first = <boolean>true;
+        let $middle = <boolean>true;
+        let $last = <boolean>true;
+        let $even = <boolean>true;
+        let $odd = <boolean>false;
+        const ___x43: any = curGrp.name;
         
     });
     while (1) {
@@ -170,26 +172,26 @@ function ___f($scope: Scope, f__translate:(key: string) => string,
             search:'', selected: $scope.editObject.assignedUserTypes
         };
         let $item = null;
-        const ___x39: any = $scope.editObject.assignedUserTypes;
+        const ___x44 = (___x45: any[]) => ($scope.editObject.assignedUserTypes) = ___x45;
         $item = f__filter($scope.itemsData.activeUserTypes, {
             desc: $select.search, combinedUser: false
         })[0];
         f__filter($scope.itemsData.activeUserTypes, {
             desc: $select.search, combinedUser: false
         }).forEach(user => {
-            const ___x40: any = user.typeId;
-            const ___x41: any = user.desc;
+            const ___x46: any = user.typeId;
+            const ___x47: any = user.desc;
             
         });
-        const ___x42: any = $scope.item.desc;
+        const ___x48: any = $scope.item.desc;
         
     }
     angular.forEach($scope.adminStatusList, status => {
-        const ___x43: any = status.name;
+        const ___x49: any = status.name;
         f__translate(status.name);
         
     });
-    const ___x44: any = $scope.actualConfigs[$scope.cfg.type] === "1" ? $scope.cfg.configs.test : ($scope.actualConfigs[$scope.cfg.type] === "0" ? $scope.cfg.configs.fleet : '');
+    const ___x50: any = $scope.actualConfigs[$scope.cfg.type] === "1" ? $scope.cfg.configs.test : ($scope.actualConfigs[$scope.cfg.type] === "0" ? $scope.cfg.configs.fleet : '');
     
 }
 }
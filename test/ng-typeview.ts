@@ -1,7 +1,11 @@
 import * as assert from 'assert'
 import {execSync} from 'child_process';
-import {readFileSync} from "fs";
-import {processProject} from "../src/ng-typeview"
+import {readFileSync, readdirSync, existsSync, mkdtempSync, rmdirSync} from "fs";
+import {tmpdir} from "os";
+import {relative} from "path";
+import {processProject, deletePreviouslyGeneratedFiles, ProjectSettings} from "../src/ng-typeview"
+import {formatViewTypeError} from "../src/viewtest-compiler"
+import {ViewDiagnostic, formatViewDiagnostic} from "../src/diagnostics"
 import {NgFilter, defaultNgFilters} from "../src/filters"
 import {defaultCtrlViewConnectors, defaultModelViewConnectors,
         CtrlViewFragmentExtractor} from "../src/controller-parser"
@@ -28,7 +32,39 @@ const checkViewFragmentExtractor: CtrlViewFragmentExtractor = {
     }
 };
 
+type TestProjectSettings = ProjectSettings & {outputDir: string};
+
+// the test projects write their viewtests to temporary folders,
+// which are deleted after each test
+let createdSettings: TestProjectSettings[] = [];
+
+function projectSettings(path: string, overrides: Partial<ProjectSettings> = {}): TestProjectSettings {
+    const settings = {
+        path,
+        blacklistedPaths: [],
+        ngFilters: filters,
+        ctrlViewConnectors: defaultCtrlViewConnectors,
+        modelViewConnectors: defaultModelViewConnectors,
+        extraCtrlViewConnections: [],
+        tagDirectives: defaultTagDirectiveHandlers,
+        attributeDirectives: defaultAttrDirectiveHandlers,
+        ctrlViewFragmentExtractors: [],
+        compileViewtests: true,
+        ...overrides,
+        outputDir: mkdtempSync(tmpdir() + "/ng-typeview-")
+    };
+    createdSettings.push(settings);
+    return settings;
+}
+
 describe("processProject", () => {
+    afterEach(() => {
+        createdSettings.forEach(settings => {
+            deletePreviouslyGeneratedFiles(settings);
+            rmdirSync(settings.outputDir);
+        });
+        createdSettings = [];
+    });
     it("should generate view test files", async () => {
         execSync("git clean -xf test/data");
         await processProject({
@@ -61,4 +97,291 @@ describe("processProject", () => {
         const expectedContentsDirective4 = readFileSync("test/data/expected_directive4_testview.ts").toString();
         assert.equal(expectedContentsDirective4, actualContentsDirective4);
     });
+    it("should report type errors against the views", async function() {
+        // compiling the viewtests takes a while
+        this.timeout(20000);
+        const errors = (await processProject({
+            path: "test/projects/typecheck",
+            blacklistedPaths: [],
+            ngFilters: filters,
+            ctrlViewConnectors: defaultCtrlViewConnectors,
+            modelViewConnectors: defaultModelViewConnectors,
+            extraCtrlViewConnections: [],
+            tagDirectives: defaultTagDirectiveHandlers,
+            attributeDirectives: defaultAttrDirectiveHandlers,
+            ctrlViewFragmentExtractors: [],
+            compileViewtests: true,
+            sourceMaps: true})).typeErrors;
+        assert.deepEqual([
+            "test/projects/typecheck/typecheck-view.html:3:20 ng-show=\"user.isSuperAdmin\": " +
+                "Property 'isSuperAdmin' does not exist on type '{ name: string; isAdmin: boolean; }'.",
+            "test/projects/typecheck/typecheck-view.html:5:36 {{u.nmae}}: " +
+                "Property 'nmae' does not exist on type '{ name: string; }'."
+        ], errors.map(formatViewTypeError));
+        const sourceMap = JSON.parse(readFileSync(
+            "test/projects/typecheck/typecheck-ctrl_typecheck-view_viewtest.ts.map").toString());
+        assert.equal(3, sourceMap.version);
+        assert.equal("typecheck-ctrl_typecheck-view_viewtest.ts", sourceMap.file);
+        assert.deepEqual(["typecheck-view.html"], sourceMap.sources);
+    });
+    it("should write the viewtests to the output folder", async function() {
+        this.timeout(20000);
+        const prjSettings = projectSettings("test/projects/typecheck");
+        const outputDir = prjSettings.outputDir;
+        const errors = (await processProject(prjSettings)).typeErrors;
+        assert.ok(existsSync(outputDir + "/typecheck-ctrl_typecheck-view_viewtest.ts"));
+        // compiled through the generated tsconfig.json
+        assert.equal(2, errors.length);
+        const tsconfig = JSON.parse(readFileSync(outputDir + "/tsconfig.json").toString());
+        assert.deepEqual(["**/*_viewtest.ts"], tsconfig.include);
+        assert.ok(tsconfig.files.some((f: string) => f.endsWith("test/projects/typecheck/typings.d.ts")));
+        deletePreviouslyGeneratedFiles(prjSettings);
+        assert.deepEqual([], readdirSync(outputDir));
+    });
+    it("should support file-level modules", async function() {
+        this.timeout(20000);
+        const prjSettings = projectSettings("test/projects/esmodule");
+        const errors = (await processProject(prjSettings)).typeErrors;
+        const viewtest = readFileSync(
+            prjSettings.outputDir + "/user-ctrl_user-view_viewtest.ts").toString();
+        const relPath = relative(prjSettings.outputDir, "test/projects/esmodule");
+        assert.ok(viewtest.startsWith(
+            `import {Status} from "${relPath}/user-ctrl";\n` +
+            `import {User} from "${relPath}/models/user";\n`));
+        assert.deepEqual([
+            "test/projects/esmodule/user-view.html:3:28 {{user.agee}}: " +
+                "Property 'agee' does not exist on type 'User'."
+        ], errors.map(formatViewTypeError));
+    });
+    it("should type the controllerAs alias as the controller class", async function() {
+        this.timeout(20000);
+        const prjSettings = projectSettings("test/projects/controlleras");
+        const errors = (await processProject(prjSettings)).typeErrors;
+        assert.deepEqual([
+            "test/projects/controlleras/user-list.html:1:37 {{ctrl.titel}}: " +
+                "Property 'titel' does not exist on type 'UserCtrl'.",
+            "test/projects/controlleras/user-view.html:3:59 {{u.nmae}}: " +
+                "Property 'nmae' does not exist on type '{ name: string; }'."
+        ], errors.map(formatViewTypeError).sort());
+    });
+    it("should type $ctrl as the component controller class", async function() {
+        this.timeout(20000);
+        const prjSettings = projectSettings("test/projects/component");
+        const errors = (await processProject(prjSettings)).typeErrors;
+        assert.deepEqual([
+            "test/projects/component/user-card.html:2:25 {{$ctrl.user.mail}}: " +
+                "Property 'mail' does not exist on type '{ name: string; email: string; }'."
+        ], errors.map(formatViewTypeError));
+    });
+    it("should refer to the scope types resolved through the type checker", async function() {
+        this.timeout(20000);
+        const prjSettings = projectSettings("test/projects/scoperef", {
+            resolveScopeTypes: true,
+            scopeInterfaceNames: {"detail-ctrl.ts": "DetailScope"}});
+        const errors = (await processProject(prjSettings)).typeErrors;
+        const relPath = relative(prjSettings.outputDir, "test/projects/scoperef");
+        const listViewtest = readFileSync(
+            prjSettings.outputDir + "/list-ctrl_list-view_viewtest.ts").toString();
+        assert.ok(listViewtest.indexOf(
+            `import {IUserListScope as ___Scope} from "${relPath}/list-ctrl";\n`) >= 0);
+        assert.ok(listViewtest.indexOf("function ___f<T0>($scope: ___Scope<T0>,") >= 0);
+        const detailViewtest = readFileSync(
+            prjSettings.outputDir + "/detail-ctrl_detail-view_viewtest.ts").toString();
+        assert.ok(detailViewtest.indexOf("function ___f($scope: scoperef.detail.DetailScope,") >= 0);
+        assert.deepEqual([
+            "test/projects/scoperef/detail-view.html:2:20 ng-show=\"detial\": " +
+                "Property 'detial' does not exist on type 'DetailScope'.",
+            "test/projects/scoperef/list-view.html:3:32 {{u.nam}}: " +
+                "Property 'nam' does not exist on type '{ name: string; extra: T0; }'."
+        ], errors.map(formatViewTypeError).sort());
+    });
+    it("should check the values given to the bindings of the project directives", async function() {
+        this.timeout(20000);
+        const prjSettings = projectSettings("test/projects/bindings");
+        const errors = (await processProject(prjSettings)).typeErrors;
+        const relPath = relative(prjSettings.outputDir, "test/projects/bindings");
+        const viewtest = readFileSync(
+            prjSettings.outputDir + "/users-ctrl_users-view_viewtest.ts").toString();
+        assert.ok(viewtest.indexOf(
+            `import {UserCardCtrl as ___userCardBindings} from "${relPath}/user-card";\n`) >= 0);
+        assert.deepEqual([
+            "test/projects/bindings/users-view.html:4:1 <user-card>: " +
+                "Type '\"medium\"' is not assignable to type '\"small\" | \"large\"'.",
+            "test/projects/bindings/users-view.html:4:18 user=\"count\": " +
+                "Type 'number' is not assignable to type 'User'.",
+            "test/projects/bindings/users-view.html:4:50 on-select=\"pick(item)\": " +
+                "Property 'item' does not exist on type 'Scope'.",
+            "test/projects/bindings/users-view.html:5:18 highlight=\"selected\": " +
+                "Type '{ name: string; email: string; }' is not assignable to type 'boolean'."
+        ], errors.map(formatViewTypeError).sort());
+    });
+    it("should report the problems met while generating the viewtests", async () => {
+        const reported: ViewDiagnostic[] = [];
+        const prjSettings = projectSettings("test/projects/diagnostics", {
+            compileViewtests: false,
+            onDiagnostic: (d: ViewDiagnostic) => reported.push(d)});
+        const report = await processProject(prjSettings);
+        assert.deepEqual([], report.typeErrors);
+        assert.deepEqual([
+            "test/projects/diagnostics/diagnostics-view.html:1:20 {{title | }}: error: " +
+                "can't parse the expression: expected /[a-zA-Z_$][\\w$]*/, " +
+                "got the end of the input [parse-error]",
+            "test/projects/diagnostics/diagnostics-view.html:1:5 ng-foo=\"title\": warning: " +
+                "unhandled attribute: ng-foo [unhandled-attribute]",
+            "test/projects/diagnostics/diagnostics-view.html:3:9 ng-repeat=\"user in\": error: " +
+                "can't parse the ng-repeat clause: expected whitespace, got the end of the input [parse-error]",
+            "test/projects/diagnostics/diagnostics-view.html:5:1 <ng-bar>: warning: " +
+                "unhandled tag: ng-bar [unhandled-tag]",
+            "test/projects/diagnostics/diagnostics-view.html:6:4 {{typeof title}}: warning: " +
+                "unhandled TypeOfExpression: typeof title, the scope accessors are not added to it [unhandled-expression]"
+        ], report.diagnostics.map(formatViewDiagnostic).sort());
+        assert.deepEqual(["ng-repeat"], report.diagnostics
+                         .filter(d => d.handler !== undefined).map(d => d.handler));
+        assert.deepEqual(report.diagnostics, reported);
+    });
+    it("should type the filters registered in the project", async function() {
+        this.timeout(20000);
+        const prjSettings = projectSettings("test/projects/filters", {resolveScopeTypes: true});
+        const outputDir = prjSettings.outputDir;
+        const report = await processProject(prjSettings);
+        const viewtest = readFileSync(outputDir + "/shop-ctrl_shop-view_viewtest.ts").toString();
+        assert.ok(viewtest.indexOf(
+            "f__productLabel:(product: shop.Product, currency?: string) => string") >= 0);
+        assert.ok(viewtest.indexOf("f__discount:(price: number, percent: number) => number") >= 0);
+        // the filters of the settings take precedence
+        assert.ok(viewtest.indexOf("f__translate:(key: string) => string") >= 0);
+        assert.deepEqual([], report.diagnostics);
+        assert.deepEqual([
+            "test/projects/filters/shop-view.html:5:11 {{product.name | discount: 10}}: " +
+                "Argument of type 'string' is not assignable to parameter of type 'number'."
+        ], report.typeErrors.map(formatViewTypeError));
+    });
+    it("should not type the filters registered in the project without resolveScopeTypes", async function() {
+        this.timeout(20000);
+        const prjSettings = projectSettings("test/projects/filters");
+        const outputDir = prjSettings.outputDir;
+        const report = await processProject(prjSettings);
+        const viewtest = readFileSync(outputDir + "/shop-ctrl_shop-view_viewtest.ts").toString();
+        assert.ok(viewtest.indexOf("f__discount:(...args: any[]) => any") >= 0);
+        assert.deepEqual([], report.typeErrors.map(formatViewTypeError));
+    });
+    it("should check the included templates with the including scope", async function() {
+        this.timeout(20000);
+        const prjSettings = projectSettings("test/projects/includes");
+        const report = await processProject(prjSettings);
+        assert.deepEqual([
+            "test/projects/includes/main-view.html:6:6 ng-include=\"'partials/missing.html'\": warning: " +
+                "can't find the included template: partials/missing.html [unresolved-include]"
+        ], report.diagnostics.map(formatViewDiagnostic));
+        assert.deepEqual([
+            "test/projects/includes/index.html:2:25 {{titel}}: " +
+                "Property 'titel' does not exist on type 'Scope'.",
+            "test/projects/includes/index.html:8:33 {{title.foo}}: " +
+                "Property 'foo' does not exist on type 'string'.",
+            "test/projects/includes/partials/user-row.html:1:21 {{user.nam}}: " +
+                "Property 'nam' does not exist on type 'User'."
+        ], report.typeErrors.map(formatViewTypeError).sort());
+    });
+    it("should check the ng-controller elements against the scope of the controller", async function() {
+        this.timeout(20000);
+        const prjSettings = projectSettings("test/projects/ngcontroller");
+        const report = await processProject(prjSettings);
+        assert.deepEqual([
+            "test/projects/ngcontroller/page-view.html:6:6 ng-controller=\"HiddenCtrl\": warning: " +
+                "test/projects/ngcontroller/hidden-ctrl.ts: can't refer to the scope type of the HiddenCtrl " +
+                "controller (is it exported?), the expressions using its scope are not checked [unresolved-scope-type]",
+            "test/projects/ngcontroller/page-view.html:7:6 ng-controller=\"MissingCtrl\": warning: " +
+                "unknown controller: MissingCtrl, the expressions using its scope are not checked [unknown-controller]"
+        ], report.diagnostics.map(formatViewDiagnostic).sort());
+        // the scope of the controller inherits from the scope of the view
+        assert.deepEqual([
+            "test/projects/ngcontroller/page-view.html:4:15 {{child.cnt}}: " +
+                "Property 'cnt' does not exist on type 'ChildCtrl'.",
+            "test/projects/ngcontroller/page-view.html:4:5 {{titel}}: " +
+                "Property 'titel' does not exist on type 'Scope & Scope'.",
+            "test/projects/ngcontroller/page-view.html:8:1 {{items}}: " +
+                "Property 'items' does not exist on type 'Scope'."
+        ], report.typeErrors.map(formatViewTypeError).sort());
+    });
+    it("should check the views of ui-router states against the scopes of the parent states", async function() {
+        this.timeout(20000);
+        const prjSettings = projectSettings("test/projects/states");
+        const report = await processProject(prjSettings);
+        assert.deepEqual([], report.diagnostics.map(formatViewDiagnostic));
+        // the scope inherits from the scopes of the states the view is rendered in
+        assert.deepEqual([
+            "test/projects/states/toolbar.html:2:7 {{user.name}}: " +
+                "Property 'user' does not exist on type 'Scope & { $resolve: { currentUser: any; }; }'.",
+            "test/projects/states/user-detail.html:2:29 {{$resolve.userId}}: " +
+                "Property 'userId' does not exist on type '{ currentUser: any; }'.",
+            "test/projects/states/users.html:5:1 {{usrs.length}}: " +
+                "Property 'usrs' does not exist on type 'Scope & Scope & { $resolve: { currentUser: any; }; }'."
+        ], report.typeErrors.map(formatViewTypeError).sort());
+    });
+    it("should check the views of ngRoute routes", async function() {
+        this.timeout(20000);
+        const prjSettings = projectSettings("test/projects/routes");
+        const report = await processProject(prjSettings);
+        assert.deepEqual([], report.diagnostics.map(formatViewDiagnostic));
+        assert.deepEqual([
+            "test/projects/routes/user.html:1:33 {{ctrl.age}}: " +
+                "Property 'age' does not exist on type 'UserCtrl'.",
+            "test/projects/routes/users.html:2:48 {{user.nam}}: " +
+                "Property 'nam' does not exist on type '{ name: string; }'.",
+            "test/projects/routes/users.html:3:26 {{$resolve.session}}: " +
+                "Property 'session' does not exist on type '{ currentUser: any; }'."
+        ], report.typeErrors.map(formatViewTypeError).sort());
+    });
+    it("should check the views of modals", async function() {
+        this.timeout(20000);
+        const prjSettings = projectSettings("test/projects/modals");
+        const report = await processProject(prjSettings);
+        assert.deepEqual([
+            "test/projects/modals/users-ctrl.ts:34:25 component: 'helpPanel': warning: " +
+                "unknown component: helpPanel, the view of the modal is not checked [unknown-component]"
+        ], report.diagnostics.map(formatViewDiagnostic));
+        // the errors of inline templates point at the typescript file
+        assert.deepEqual([
+            "test/projects/modals/edit-user.html:3:19 ng-click=\"vm.sav()\": " +
+                "Property 'sav' does not exist on type 'EditUserCtrl'.",
+            "test/projects/modals/help.html:2:4 {{topc}}: " +
+                "Property 'topc' does not exist on type 'Scope'.",
+            "test/projects/modals/users-ctrl.ts:26:27 {{mesage}}: " +
+                "Property 'mesage' does not exist on type 'Scope'."
+        ], report.typeErrors.map(formatViewTypeError).sort());
+    });
+    it("should handle the standard angular directives", async function() {
+        this.timeout(20000);
+        const prjSettings = projectSettings("test/projects/directives");
+        const report = await processProject(prjSettings);
+        assert.deepEqual([], report.diagnostics.map(formatViewDiagnostic));
+        // the contents of ng-non-bindable are not checked,
+        // $event is typed for the event directives, ng-model
+        // must be assignable from the values of the widget, ng-repeat
+        // types the keys and values of arrays and objects, and sibling
+        // ng-repeats may use the same alias. The event handlers of several
+        // statements have $event in all of them.
+        assert.deepEqual([
+            "test/projects/directives/form-view.html:10:59 {{user.nam}}: " +
+                "Property 'nam' does not exist on type '{ name: string; email: string; agreed: string; tags: string[]; }'.",
+            "test/projects/directives/form-view.html:13:11 ng-pluralize: " +
+                "Type 'string' is not assignable to type 'number'.",
+            "test/projects/directives/form-view.html:16:20 ng-click=\"select($event.key)\": " +
+                "Property 'key' does not exist on type 'MouseEvent'.",
+            "test/projects/directives/form-view.html:17:71 ng-model=\"user.name\": " +
+                "Type 'number' is not assignable to type 'string'.",
+            "test/projects/directives/form-view.html:19:56 ng-model=\"user.name.trim()\": " +
+                "The left-hand side of an assignment expression must be a variable or a property access.",
+            "test/projects/directives/form-view.html:21:52 {{product.nam}}: " +
+                "Property 'nam' does not exist on type '{ name: string; }'.",
+            "test/projects/directives/form-view.html:21:68 {{id.toFixed(2)}}: " +
+                "Property 'toFixed' does not exist on type 'string'.",
+            "test/projects/directives/form-view.html:26:47 ng-repeat=\"tag in user.tags track by tag.nam\": " +
+                "Property 'nam' does not exist on type 'string'.",
+            "test/projects/directives/form-view.html:30:68 ng-dblclick=\"isLocked = true; select($event.key)\": " +
+                "Property 'key' does not exist on type 'MouseEvent'.",
+            "test/projects/directives/form-view.html:8:61 ng-minlength=\"user.name\": " +
+                "Type 'string' is not assignable to type 'number'."
+        ], report.typeErrors.map(formatViewTypeError).sort());
+    });
 });
@@ -0,0 +1,116 @@
+import * as assert from 'assert'
+import {mkdtempSync, readFileSync, writeFileSync, existsSync, readdirSync,
+        unlinkSync, rmdirSync, mkdirSync, statSync} from "fs";
+import {tmpdir} from "os";
+import {watchProject, ProjectWatcher} from "../src/project-watcher"
+import {ProjectSettings} from "../src/ng-typeview"
+import {ViewDiagnostic} from "../src/diagnostics"
+import {defaultNgFilters} from "../src/filters"
+import {defaultCtrlViewConnectors, defaultModelViewConnectors} from "../src/controller-parser"
+import {defaultTagDirectiveHandlers, defaultAttrDirectiveHandlers} from "../src/ng-directives"
+
+function deleteFolder(folder: string): void {
+    readdirSync(folder).forEach(f => statSync(folder + "/" + f).isDirectory()
+                                ? deleteFolder(folder + "/" + f)
+                                : unlinkSync(folder + "/" + f));
+    rmdirSync(folder);
+}
+
+describe("watchProject", () => {
+    let folder: string;
+    let watcher: ProjectWatcher|undefined;
+
+    beforeEach(() => {
+        folder = mkdtempSync(tmpdir() + "/ng-typeview-");
+        ["typecheck-ctrl.ts", "typecheck-view.html", "typings.d.ts"].forEach(
+            f => writeFileSync(folder + "/" + f, readFileSync("test/projects/typecheck/" + f)));
+    });
+
+    afterEach(async () => {
+        if (watcher) {
+            await watcher.close();
+            watcher = undefined;
+        }
+        deleteFolder(folder);
+    });
+
+    const watchSettings = (): ProjectSettings => ({
+        path: folder,
+        blacklistedPaths: [],
+        ngFilters: defaultNgFilters,
+        ctrlViewConnectors: defaultCtrlViewConnectors,
+        modelViewConnectors: defaultModelViewConnectors,
+        extraCtrlViewConnections: [],
+        tagDirectives: defaultTagDirectiveHandlers,
+        attributeDirectives: defaultAttrDirectiveHandlers,
+        ctrlViewFragmentExtractors: []});
+
+    it("should regenerate the viewtests affected by changes", async () => {
+        watcher = await watchProject(watchSettings());
+        const ctrlPath = folder + "/typecheck-ctrl.ts";
+        const viewPath = folder + "/typecheck-view.html";
+        const viewtestPath = folder + "/typecheck-ctrl_typecheck-view_viewtest.ts";
+        assert.ok(readFileSync(viewtestPath).toString().indexOf("u.nmae") >= 0);
+
+        writeFileSync(viewPath, readFileSync(viewPath).toString().replace("u.nmae", "u.name"));
+        await watcher.update([viewPath]);
+        assert.ok(readFileSync(viewtestPath).toString().indexOf("u.nmae") < 0);
+
+        // the controller-view connection disappears => stale viewtest
+        const ctrlContents = readFileSync(ctrlPath).toString();
+        writeFileSync(ctrlPath, ctrlContents.replace("$modal.open", "console.log"));
+        await watcher.update([ctrlPath]);
+        assert.ok(!existsSync(viewtestPath));
+
+        writeFileSync(ctrlPath, ctrlContents);
+        await watcher.update([ctrlPath]);
+        assert.ok(existsSync(viewtestPath));
+    });
+
+    it("should regenerate the viewtests when files change in the project folder", async () => {
+        // the updates are triggered by the file system events
+        let updateListener: (() => void)|undefined = undefined;
+        const updated = (condition: () => boolean) => new Promise<void>(resolve => {
+            updateListener = () => {
+                if (condition()) {
+                    updateListener = undefined;
+                    resolve();
+                }
+            };
+        });
+        watcher = await watchProject(watchSettings(), _ => updateListener && updateListener());
+        const viewPath = folder + "/typecheck-view.html";
+        const viewtestPath = folder + "/typecheck-ctrl_typecheck-view_viewtest.ts";
+
+        const viewUpdated = updated(() => readFileSync(viewtestPath).toString().indexOf("u.nmae") < 0);
+        writeFileSync(viewPath, readFileSync(viewPath).toString().replace("u.nmae", "u.name"));
+        await viewUpdated;
+
+        // a controller in a new folder
+        const folderCreated = updated(() => existsSync(folder + "/sub/other-ctrl_typecheck-view_viewtest.ts"));
+        mkdirSync(folder + "/sub");
+        writeFileSync(folder + "/sub/other-ctrl.ts", readFileSync(folder + "/typecheck-ctrl.ts").toString()
+                      .replace("typecheck.module", "other.module")
+                      .replace("'TypecheckCtrl'", "'OtherCtrl'").replace("'TypecheckCtrl'", "'OtherCtrl'"));
+        await folderCreated;
+    }).timeout(10000);
+
+    it("should report the failures of the update callback", async () => {
+        let diagnosticListener: ((diagnostic: ViewDiagnostic) => void)|undefined = undefined;
+        const reported = new Promise<ViewDiagnostic>(resolve => diagnosticListener = resolve);
+        let initialized = false;
+        watcher = await watchProject(
+            {...watchSettings(), onDiagnostic: d => diagnosticListener && diagnosticListener(d)},
+            _ => {
+                if (initialized) {
+                    throw new Error("callback failure");
+                }
+                initialized = true;
+            });
+        const viewPath = folder + "/typecheck-view.html";
+        writeFileSync(viewPath, readFileSync(viewPath).toString().replace("u.nmae", "u.name"));
+        const diagnostic = await reported;
+        assert.equal("update-failed", diagnostic.code);
+        assert.ok(diagnostic.message.indexOf("callback failure") >= 0);
+    }).timeout(10000);
+});
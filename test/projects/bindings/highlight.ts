@@ -0,0 +1,18 @@
+module widgets {
+
+    export interface HighlightScope {
+        active: boolean;
+        color: string;
+    }
+
+    angular.module('bindings.ng.module').directive('highlight', () => {
+        return {
+            restrict: 'A',
+            scope: {
+                active: '=highlight',
+                color: '@highlightColor'
+            },
+            link: ($scope: HighlightScope) => {}
+        };
+    });
+}
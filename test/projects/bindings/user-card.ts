@@ -0,0 +1,23 @@
+export interface User {
+    name: string;
+    email: string;
+}
+
+export class UserCardCtrl {
+    user: User;
+    title: string;
+    size: "small"|"large";
+    onSelect: (locals: {user: User, index: number}) => void;
+}
+
+angular.module('bindings.ng.module')
+    .component('userCard', {
+        template: '<div>{{$ctrl.user.name}}</div>',
+        controller: UserCardCtrl,
+        bindings: {
+            user: '<',
+            title: '@',
+            size: '@?',
+            onSelect: '&'
+        }
+    });
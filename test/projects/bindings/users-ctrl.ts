@@ -0,0 +1,17 @@
+module users {
+
+    interface Scope {
+        selected: {name: string, email: string};
+        users: {name: string, email: string}[];
+        count: number;
+        pick(user: {name: string}): void;
+    }
+
+    $modal.open({
+        templateUrl: 'users-view.html',
+        controller: 'UsersCtrl'
+    });
+
+    angular.module('bindings.ng.module')
+        .controller('UsersCtrl', ($scope: Scope) => {});
+}
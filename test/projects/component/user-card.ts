@@ -0,0 +1,18 @@
+export class UserCardCtrl {
+    user: {name: string, email: string};
+    onSelect: (args: {user: {name: string}}) => void;
+
+    isSelected(): boolean {
+        return false;
+    }
+}
+
+angular.module('component.ng.module')
+    .component('userCard', {
+        templateUrl: 'user-card.html',
+        controller: UserCardCtrl,
+        bindings: {
+            user: '<',
+            onSelect: '&'
+        }
+    });
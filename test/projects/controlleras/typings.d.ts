@@ -0,0 +1,6 @@
+declare const angular: {
+    module(name: string): any;
+    forEach<T>(items: T[], callback: (item: T) => void): void;
+};
+declare const $modal: {open(options: {templateUrl: string, controller: string}): void};
+declare const $stateProvider: {state(name: string, config: any): void};
@@ -0,0 +1,26 @@
+module controlleras {
+
+    class UserCtrl {
+        title = "Users";
+        users: {name: string}[] = [];
+
+        constructor(private $http: any) {}
+
+        select(user: {name: string}): void {}
+    }
+
+    $modal.open({
+        templateUrl: 'user-view.html',
+        controller: 'UserCtrl as vm'
+    });
+
+    $stateProvider.state('users', {
+        url: '/users',
+        templateUrl: 'user-list.html',
+        controller: 'UserCtrl',
+        controllerAs: 'ctrl'
+    });
+
+    angular.module('controlleras.ng.module')
+        .controller('UserCtrl', ['$http', UserCtrl]);
+}
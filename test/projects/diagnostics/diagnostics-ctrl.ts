@@ -0,0 +1,15 @@
+module diagnostics.module {
+
+    interface Scope {
+        users: {name: string}[];
+        title: string;
+    }
+
+    $modal.open({
+        templateUrl: 'diagnostics-view.html',
+        controller: 'DiagnosticsCtrl'
+    });
+
+    angular.module('diagnostics.ng.module')
+        .controller('DiagnosticsCtrl', ['$scope', ($scope: Scope) => {}]);
+}
@@ -0,0 +1,27 @@
+module form.ctrl {
+
+    interface Scope {
+        user: {name: string, email: string, agreed: string, tags: string[]};
+        profile: {age: number, birthDate: Date, nickname: (value?: string) => string};
+        minNameLength: number;
+        followers: number;
+        form: {email: {$error: {[key: string]: boolean}}};
+        isLocked: boolean;
+        roles: string[];
+        query: string;
+        productsById: {[id: string]: {name: string}};
+        avatarUrl: string;
+        save(): void;
+        reset(): void;
+        select(value: string): void;
+        moveTo(x: number, y: number): void;
+    }
+
+    $modal.open({
+        templateUrl: 'form-view.html',
+        controller: 'FormCtrl'
+    });
+
+    angular.module('form.ng.module')
+        .controller('FormCtrl', ['$scope', ($scope: Scope) => {}]);
+}
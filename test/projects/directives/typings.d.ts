@@ -0,0 +1,6 @@
+declare const angular: {
+    module(name: string): any;
+    forEach<T>(items: T[], callback: (item: T, key: number) => void): void;
+    forEach<T>(items: {[key: string]: T}, callback: (item: T, key: string) => void): void;
+};
+declare const $modal: {open(options: {templateUrl: string, controller: string}): void};
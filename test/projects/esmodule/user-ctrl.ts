@@ -0,0 +1,24 @@
+import {User} from "./models/user";
+
+export enum Status {
+    Active,
+    Inactive
+}
+
+interface Address {
+    city: string;
+}
+
+export interface Scope {
+    user: User;
+    status: Status;
+    address: Address;
+}
+
+$modal.open({
+    templateUrl: 'user-view.html',
+    controller: 'UserCtrl'
+});
+
+angular.module('esmodule.ng.module')
+    .controller('UserCtrl', ['$scope', ($scope: Scope) => {}]);
@@ -0,0 +1,14 @@
+module shop.ctrl {
+
+    interface Scope {
+        products: shop.Product[];
+    }
+
+    $modal.open({
+        templateUrl: 'shop-view.html',
+        controller: 'ShopCtrl'
+    });
+
+    angular.module('shop.ng.module')
+        .controller('ShopCtrl', ['$scope', ($scope: Scope) => {}]);
+}
@@ -0,0 +1,13 @@
+module shop {
+
+    export interface Product {
+        name: string;
+        price: number;
+    }
+
+    angular.module('shop.ng.module')
+        .filter('productLabel', () => (product: shop.Product, currency?: string) => product.name)
+        .filter('discount', ['$locale', ($locale: any) =>
+                             (price: number, percent: number): number => price * (100 - percent) / 100])
+        .filter('translate', () => (key: string, lang: string) => key);
+}
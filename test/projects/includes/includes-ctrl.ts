@@ -0,0 +1,24 @@
+module includes.ctrl {
+
+    interface User {
+        name: string;
+    }
+
+    interface Scope {
+        title: string;
+        users: User[];
+    }
+
+    $modal.open({
+        templateUrl: 'main-view.html',
+        controller: 'IncludesCtrl'
+    });
+
+    $modal.open({
+        templateUrl: 'user-dialog.html',
+        controller: 'IncludesCtrl'
+    });
+
+    angular.module('includes.ng.module')
+        .controller('IncludesCtrl', ['$scope', ($scope: Scope) => {}]);
+}
@@ -0,0 +1,9 @@
+module app.confirm {
+
+    export interface Scope {
+        message: string;
+    }
+
+    angular.module('app.ng.module')
+        .controller('ConfirmCtrl', ['$scope', ($scope: Scope) => {}]);
+}
@@ -0,0 +1,18 @@
+module app.dialogs {
+
+    export class DialogsCtrl {
+        static $inject = ['$uibModal', 'ngDialog'];
+        constructor(private modals: any, private dialogs: any) {}
+
+        show() {
+            this.modals.open({templateUrl: 'help.html', controller: 'HelpCtrl'});
+            // other services and calls, recognized without the type checker
+            this.dialogs.open({templateUrl: 'popup.html', controller: 'HelpCtrl'});
+            window.open('help.html');
+        }
+    }
+
+    angular.module('app.ng.module').run(['ngDialog', (dialogs: any) => {
+        dialogs.open({template: '<p>{{topic}}</p>', controller: 'HelpCtrl'});
+    }]);
+}
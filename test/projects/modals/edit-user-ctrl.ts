@@ -0,0 +1,12 @@
+module app.edit {
+
+    export interface Scope {
+        user: {name: string};
+    }
+
+    // given to the modal directly, not registered
+    export class EditUserCtrl {
+        constructor(private $scope: Scope) {}
+        save() {}
+    }
+}
@@ -0,0 +1,9 @@
+module app.help {
+
+    export interface Scope {
+        topic: string;
+    }
+
+    angular.module('app.ng.module')
+        .controller('HelpCtrl', ['$scope', ($scope: Scope) => {}]);
+}
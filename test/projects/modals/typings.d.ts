@@ -0,0 +1,8 @@
+declare const angular: {
+    module(name: string): any;
+};
+declare namespace ng.ui.bootstrap {
+    interface IModalService {
+        open(options: any): any;
+    }
+}
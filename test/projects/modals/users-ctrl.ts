@@ -0,0 +1,63 @@
+module app.users {
+
+    export interface Scope {
+        users: string[];
+    }
+
+    export class UsersCtrl {
+        static $inject = ['$scope', '$uibModal'];
+        constructor(private $scope: Scope, private modals: any) {}
+
+        edit() {
+            this.modals.open({
+                templateUrl: 'edit-user.html',
+                controller: app.edit.EditUserCtrl,
+                controllerAs: 'vm'
+            });
+        }
+    }
+
+    angular.module('app.ng.module')
+        .controller('UsersCtrl', UsersCtrl);
+
+    angular.module('app.ng.module').run(['$uibModal', (dialogs: any) => {
+        dialogs.open({
+            template: `<p>{{message}}</p>
+                       <p>{{mesage}}</p>`,
+            controller: 'ConfirmCtrl'
+        });
+    }]);
+
+    function showHelp(helpModal: ng.ui.bootstrap.IModalService) {
+        helpModal.open({templateUrl: 'help.html', controller: 'HelpCtrl'});
+        // the component declares its template and controller
+        helpModal.open({component: 'helpPanel'});
+    }
+
+    // not a modal service
+    const popup = {open: (options: any) => {}};
+    popup.open({templateUrl: 'popup.html', controller: 'UsersCtrl'});
+
+    type Dialogs = ng.ui.bootstrap.IModalService;
+    interface AppModals extends ng.ui.bootstrap.IModalService {
+        confirm(message: string): void;
+    }
+
+    function showAbout(dialogs: Dialogs, appModals: AppModals) {
+        dialogs.open({templateUrl: 'about.html', controller: 'HelpCtrl'});
+        appModals.open({templateUrl: 'about.html', controller: 'ConfirmCtrl'});
+        appModals.open({component: 'userPanel'});
+    }
+
+    function SettingsCtrl(modals: any) {
+        modals.open({templateUrl: 'settings.html', controller: 'ConfirmCtrl'});
+    }
+    SettingsCtrl.$inject = ['$uibModal'];
+
+    // same name as the injected modal service, but not a modal service
+    function showPopup(modals: {open: (options: any) => void}) {
+        modals.open({templateUrl: 'popup.html', controller: 'HelpCtrl'});
+    }
+
+    angular.module('app.ng.module').component('userPanel', {template: '<p>user</p>'});
+}
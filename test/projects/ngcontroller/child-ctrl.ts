@@ -0,0 +1,14 @@
+module page.child {
+
+    export interface Scope {
+        items: string[];
+    }
+
+    export class ChildCtrl {
+        count: number;
+        constructor(private $scope: Scope) {}
+    }
+
+    angular.module('page.ng.module')
+        .controller('ChildCtrl', ChildCtrl);
+}
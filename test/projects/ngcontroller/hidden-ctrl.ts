@@ -0,0 +1,9 @@
+module page.hidden {
+
+    interface Scope {
+        secret: string;
+    }
+
+    angular.module('page.ng.module')
+        .controller('HiddenCtrl', ['$scope', ($scope: Scope) => {}]);
+}
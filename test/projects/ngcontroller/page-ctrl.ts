@@ -0,0 +1,15 @@
+module page.ctrl {
+
+    export interface Scope {
+        title: string;
+        user: {name: string};
+    }
+
+    $modal.open({
+        templateUrl: 'page-view.html',
+        controller: 'PageCtrl'
+    });
+
+    angular.module('page.ng.module')
+        .controller('PageCtrl', ['$scope', ($scope: Scope) => {}]);
+}
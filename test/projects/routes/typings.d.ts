@@ -0,0 +1,4 @@
+declare const angular: {
+    module(name: string): any;
+    forEach<T>(items: T[], callback: (item: T) => void): void;
+};
@@ -0,0 +1,16 @@
+module app.user {
+
+    export class UserCtrl {
+        name: string;
+    }
+
+    angular.module('app.ng.module')
+        .controller('UserCtrl', UserCtrl);
+
+    function redirectUnknown($routeProvider: any) {
+        $routeProvider.otherwise({
+            templateUrl: 'not-found.html',
+            controller: 'UserCtrl'
+        });
+    }
+}
@@ -0,0 +1,31 @@
+module app.users {
+
+    export interface Scope {
+        filter: string;
+    }
+
+    export class UsersCtrl {
+        users: {name: string}[];
+        constructor(private $scope: Scope) {}
+    }
+
+    angular.module('app.ng.module')
+        .controller('UsersCtrl', UsersCtrl);
+
+    angular.module('app.ng.module').config(['$routeProvider', ($routeProvider: any) => {
+        $routeProvider
+            .when('/users', {
+                templateUrl: 'users.html',
+                controller: 'UsersCtrl',
+                controllerAs: 'vm',
+                resolve: {
+                    currentUser: ['session', (session: any) => session.user()]
+                }
+            })
+            .when('/users/:id', <any>{
+                templateUrl: 'user.html',
+                controller: 'UserCtrl as ctrl'
+            })
+            .otherwise({redirectTo: '/users'});
+    }]);
+}
@@ -0,0 +1,14 @@
+module scoperef.detail {
+
+    export interface DetailScope {
+        detail: string;
+    }
+
+    $modal.open({
+        templateUrl: 'detail-view.html',
+        controller: 'DetailCtrl'
+    });
+
+    angular.module('scoperef.ng.module')
+        .controller('DetailCtrl', ['$scope', ($scope) => {}]);
+}
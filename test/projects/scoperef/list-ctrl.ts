@@ -0,0 +1,13 @@
+import {BaseScope} from "./scopes";
+
+export interface IUserListScope<T> extends BaseScope {
+    users: {name: string, extra: T}[];
+}
+
+$modal.open({
+    templateUrl: 'list-view.html',
+    controller: 'UserListCtrl'
+});
+
+angular.module('scoperef.ng.module')
+    .controller('UserListCtrl', ['$scope', ($scope: IUserListScope<number>) => {}]);
@@ -0,0 +1,3 @@
+export interface BaseScope {
+    title: string;
+}
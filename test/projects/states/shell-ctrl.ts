@@ -0,0 +1,42 @@
+module app.shell {
+
+    export interface Scope {
+        user: {name: string};
+        logout: () => void;
+    }
+
+    angular.module('app.ng.module')
+        .controller('ShellCtrl', ['$scope', ($scope: Scope) => {}]);
+
+    angular.module('app.ng.module').config(['$stateProvider', ($stateProvider: any) => {
+        $stateProvider
+            .state('app', {
+                abstract: true,
+                templateUrl: 'shell.html',
+                controller: 'ShellCtrl',
+                resolve: {
+                    currentUser: () => null
+                }
+            })
+            .state('app.users', {
+                url: '/users',
+                templateUrl: 'users.html',
+                controller: 'UsersCtrl'
+            })
+            .state({
+                name: 'details',
+                parent: 'app.users',
+                url: '/:id',
+                views: {
+                    'detail@app.users': {
+                        templateUrl: 'user-detail.html',
+                        controller: 'UserDetailCtrl as vm'
+                    },
+                    'toolbar@': {
+                        templateUrl: 'toolbar.html',
+                        controller: 'ToolbarCtrl'
+                    }
+                }
+            });
+    }]);
+}
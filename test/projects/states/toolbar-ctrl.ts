@@ -0,0 +1,9 @@
+module app.toolbar {
+
+    export interface Scope {
+        title: string;
+    }
+
+    angular.module('app.ng.module')
+        .controller('ToolbarCtrl', ['$scope', ($scope: Scope) => {}]);
+}
@@ -0,0 +1,13 @@
+module app.userdetail {
+
+    export interface Scope {
+        selected: number;
+    }
+
+    export class UserDetailCtrl {
+        constructor(private $scope: Scope) {}
+    }
+
+    angular.module('app.ng.module')
+        .controller('UserDetailCtrl', UserDetailCtrl);
+}
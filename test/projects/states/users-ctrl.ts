@@ -0,0 +1,9 @@
+module app.users {
+
+    export interface Scope {
+        users: {name: string}[];
+    }
+
+    angular.module('app.ng.module')
+        .controller('UsersCtrl', ['$scope', ($scope: Scope) => {}]);
+}
@@ -0,0 +1,15 @@
+module typecheck.module {
+
+    interface Scope {
+        user: {name: string, isAdmin: boolean};
+        users: {name: string}[];
+    }
+
+    $modal.open({
+        templateUrl: 'typecheck-view.html',
+        controller: 'TypecheckCtrl'
+    });
+
+    angular.module('typecheck.ng.module')
+        .controller('TypecheckCtrl', ['$scope', ($scope: Scope) => {}]);
+}
@@ -0,0 +1,23 @@
+import * as assert from 'assert'
+import {Vector} from "prelude.ts";
+import {generateSourceMap} from '../src/source-map'
+
+describe("generateSourceMap", () => {
+    it("should map the generated lines to the view", () => {
+        const location = (line: number, column: number) =>
+            ({fileName: "app/views/user.html", line, column, snippet: ""});
+        const sourceMap = JSON.parse(generateSourceMap(
+            "app/ctrl/user_viewtest.ts",
+            "header\na;\nbb;cc\n",
+            Vector.of(
+                {start: 7, end: 9, location: location(3, 5)},
+                {start: 10, end: 13, location: location(4, 1)})));
+        assert.deepEqual({
+            version: 3,
+            file: "user_viewtest.ts",
+            sources: ["../views/user.html"],
+            names: [],
+            mappings: ";AAEI;AACJ,G;"
+        }, sourceMap);
+    });
+});
@@ -1,7 +1,10 @@
 import * as assert from 'assert'
 import {Vector} from "prelude.ts";
-import {addScopeAccessors} from '../src/view-ngexpression-parser'
+import {addScopeAccessors, filterExpressionToTypescript, parseNgExpression,
+        CodegenHelper} from '../src/view-ngexpression-parser'
 import {NgScope} from "../src/view-parser"
+import {defaultNgFilters} from "../src/filters"
+import * as ts from "typescript";
 
 describe("addScopeAccessors", () => {
     it ("should add $scope properly", () => {
@@ -17,10 +20,14 @@ describe("addScopeAccessors", () => {
                 variables: []
             }
         );
+        const reported: string[] = [];
+        const report = (severity: string, code: string, message: string) =>
+            reported.push(`${severity}: ${message} [${code}]`);
         const assertScopeAcc = (expected:string,input:string) => assert.equal(
-            expected, addScopeAccessors(fakeScopeInfo, input));
+            expected, addScopeAccessors(fakeScopeInfo, input, report));
         assertScopeAcc("$scope.data.value", "data.value");
         assertScopeAcc("$scope.data.value !== undefined", "data.value !== undefined");
+        assertScopeAcc("$scope.data.value", "::data.value");
         assertScopeAcc("!$scope.wasProvidedWorkbook()", "!wasProvidedWorkbook()");
         assertScopeAcc("$scope.info.subscribedEmails.length > 0", "info.subscribedEmails.length > 0");
         assertScopeAcc("$scope.movieInfo.legendEnabled && $scope.movieInfo.legend.length > 0",
@@ -45,5 +52,174 @@ describe("addScopeAccessors", () => {
         assertScopeAcc("!{entity: $scope.imported[0], selected: true}.entity.selectable", "!{entity: imported[0], selected: true}.entity.selectable");
         assertScopeAcc("{entity: $scope.imported[0], selected: true}.selected", "{entity: imported[0], selected: true}.selected");
         assertScopeAcc("{entity: $scope.imported[0], selected: true}.entity[$scope.col.field]", "{entity: imported[0], selected: true}.entity[col.field]")
+        assert.deepEqual([], reported);
+        // the problems are reported rather than logged
+        assertScopeAcc("/[\"'{]/.test($scope.value)", "/[\"'{]/.test(value)");
+        assertScopeAcc("typeof value", "typeof value");
+        assert.deepEqual([
+            "warning: it's likely that the rendering of the regular expression /[\"'{]/ causes problems. " +
+                "Consider moving its value to the controller or changing it to the 'new RegExp()' form [regexp-rendering]",
+            "warning: unhandled TypeOfExpression: typeof value, " +
+                "the scope accessors are not added to it [unhandled-expression]"
+        ], reported);
+    });
+});
+
+describe("parseNgExpression", () => {
+    it("should parse angular expressions", () => {
+        const parsed = parseNgExpression().parse("!(user.roles[idx] | translate: 'en')");
+        assert.ok(parsed.status);
+        assert.deepEqual({
+            kind: "unary",
+            text: "!(user.roles[idx] | translate: 'en')",
+            operator: "!",
+            operand: {
+                kind: "parenthesized",
+                text: "(user.roles[idx] | translate: 'en')",
+                expression: {
+                    kind: "filter",
+                    text: "user.roles[idx] | translate: 'en'",
+                    input: {
+                        kind: "element",
+                        text: "user.roles[idx]",
+                        expression: {
+                            kind: "member",
+                            text: "user.roles",
+                            expression: {kind: "identifier", text: "user"},
+                            name: "roles"
+                        },
+                        argument: {kind: "identifier", text: "idx"}
+                    },
+                    filterName: "translate",
+                    arguments: [{kind: "literal", text: "'en'"}]
+                }
+            }
+        }, parsed.status ? parsed.value : undefined);
+    });
+    it("should apply the angular operator precedence", () => {
+        const parsed = parseNgExpression().parse("a = b || c ? 1 : 2 + 3 * 4 | f");
+        assert.ok(parsed.status);
+        const expr = parsed.status ? parsed.value : undefined;
+        assert.equal("filter", expr && expr.kind);
+        const input = expr && expr.kind === "filter" ? expr.input : undefined;
+        assert.equal("assignment", input && input.kind);
+        const value = input && input.kind === "assignment" ? input.value : undefined;
+        assert.equal("conditional", value && value.kind);
+        assert.equal("2 + 3 * 4", value && value.kind === "conditional" ? value.whenFalse.text : "");
+    });
+});
+
+describe("filterExpressionToTypescript", () => {
+    it("should convert the angular expressions to typescript", () => {
+        let varIdx = 0;
+        const assertTs = (expected: string, input: string) => assert.equal(
+            expected, filterExpressionToTypescript(input, new CodegenHelper(
+                Vector.ofIterable(defaultNgFilters),
+                Vector.of({xpathDepth: 0, closeSource: ()=>"", variables: []}),
+                () => "___x" + (varIdx++))));
+        assertTs("const ___x0: any = $scope.a == $scope.b;", "a == b");
+        assertTs("const ___x1: any = $scope.count % 2 !== 0;", "count % 2 !== 0");
+        assertTs("const ___x2: any = -($scope.x + 1);", "-(x + 1)");
+        assertTs("const ___x3: any = $scope.selected = $scope.user; $scope.save();",
+                 "selected = user; save()");
+        assertTs("f__translate($scope.isAdmin ? 'a' : 'b');", "isAdmin ? 'a' : 'b' | translate");
+        assertTs("f__orderBy(f__filter($scope.items, {name: $scope.user.name}), 'name');",
+                 "items | filter: {name: user.name} | orderBy: 'name'");
+        assertTs("const ___x4: any = (f__filter($scope.items, $scope.query)).length > 0;",
+                 "(items | filter: query).length > 0");
+        assertTs("const ___x5: any = $scope.total(f__limitTo($scope.items, 3)) + 1;",
+                 "total(items | limitTo: 3) + 1");
+        assertTs("const ___x6: any = $scope.shown = !(f__filter($scope.items, $scope.query)).length;" +
+                 "f__translate($scope.title);", "shown = !(items | filter: query).length; title | translate");
+        assertTs("f__orderBy($scope.items, ['price', 'name']);", "items | orderBy: ['-price', 'name']");
+        assertTs("f__orderBy($scope.items, $scope.sortKey($scope.user, '-name'));",
+                 "items | orderBy: sortKey(user, '-name')");
+    });
+});
+
+describe("unknown filters", () => {
+    it("should be reported, suggesting a known filter", () => {
+        let varIdx = 0;
+        const codegenHelpers = new CodegenHelper(
+            Vector.ofIterable(defaultNgFilters),
+            Vector.of({xpathDepth: 0, closeSource: ()=>"", variables: []}),
+            () => "___x" + (varIdx++));
+        assert.equal("(<any>undefined)($scope.items, 'name');",
+                     filterExpressionToTypescript("items | ordrBy: 'name'", codegenHelpers));
+        assert.equal("const ___x0: any = ((<any>undefined)($scope.items)).length;",
+                     filterExpressionToTypescript("(items | unique).length", codegenHelpers));
+        assert.deepEqual([
+            {severity: "error", code: "unknown-filter",
+             message: "unknown filter: ordrBy, did you mean orderBy?"},
+            {severity: "error", code: "unknown-filter",
+             message: "unknown filter: unique"}
+        ], codegenHelpers.diagnostics);
+    });
+});
+
+describe("defaultNgFilters", () => {
+    it("should type the filters like angular", function() {
+        // compiling takes a while
+        this.timeout(20000);
+        let varIdx = 0;
+        const codegenHelpers = new CodegenHelper(
+            Vector.ofIterable(defaultNgFilters),
+            Vector.of({xpathDepth: 0, closeSource: ()=>"", variables: []}),
+            () => "___x" + (varIdx++));
+        // [type, expression, whether it type-checks]
+        const checks: [string, string, boolean][] = [
+            ["string", "count | number", true],
+            ["string", "count | number: 2", true],
+            ["string", "title | number", true],
+            ["string", "items | number", false],
+            ["string", "items | json", true],
+            ["string", "items | json: 4", true],
+            ["string", "title | lowercase", true],
+            ["string", "title | uppercase", true],
+            ["string", "count | uppercase", false],
+            ["Item[]", "items | orderBy", true],
+            ["Item[]", "items | orderBy: 'name'", true],
+            ["Item[]", "items | orderBy: '-price'", true],
+            ["Item[]", "items | orderBy: ['-price', '+name']", true],
+            ["Item[]", "items | orderBy: ['-price', 'nmae']", false],
+            ["Item[]", "items | orderBy: 'nmae'", false],
+            ["Item[]", "items | orderBy: itemPrice", true],
+            ["Item[]", "items | orderBy: 'name': true", true],
+            ["Item[]", "items | orderBy: 'name': false: compareItems", true],
+            ["string", "items | orderBy: 'name'", false],
+            ["string", "title | limitTo: 3", true],
+            ["string", "count | limitTo: 3", true],
+            ["Item[]", "items | limitTo: 3", true],
+            ["Item[]", "items | limitTo: 3: 1", true],
+            ["Item[]", "title | limitTo: 3", false],
+            ["string", "birthday | date: 'yyyy'", true],
+            ["string", "count | date", true],
+            ["null", "nothing | date", true],
+            ["string|null|undefined", "weddingDay | date: 'yyyy'", true],
+            ["string", "weddingDay | date: 'yyyy'", false]
+        ];
+        const statements = checks.map(([type, expr]) => codegenHelpers.declareVariable(type, expr));
+        const source = "interface Item {name: string; price: number;}\n" +
+            "function ___f($scope: {items: Item[], title: string, count: number, birthday: Date, " +
+            "weddingDay: Date|undefined, nothing: null, itemPrice: (item: Item) => number, " +
+            "compareItems: (v1: {value: any}, v2: {value: any}) => number},\n" +
+            defaultNgFilters.map(f => `f__${f.name}:${f.type}`).join(",\n") + ") {\n" +
+            statements.join("\n") + "\n}\n";
+        const fileName = "filters-check.ts";
+        const options: ts.CompilerOptions = {noEmit: true, strict: true};
+        const host = ts.createCompilerHost(options);
+        const getSourceFile = host.getSourceFile;
+        host.getSourceFile = (name, target, onError) => name === fileName
+            ? ts.createSourceFile(name, source, target)
+            : getSourceFile.call(host, name, target, onError);
+        const program = ts.createProgram([fileName], options, host);
+        const sourceFile = program.getSourceFile(fileName);
+        const failingLines = program.getSemanticDiagnostics(sourceFile)
+            .map(d => sourceFile.getLineAndCharacterOfPosition(d.start).line);
+        const firstLine = source.split("\n").length - statements.length - 2;
+        assert.deepEqual(
+            checks.filter(([_, __, typeChecks]) => !typeChecks).map(([type, expr]) => type + " " + expr),
+            checks.filter((_, idx) => failingLines.indexOf(firstLine + idx) >= 0)
+                .map(([type, expr]) => type + " " + expr));
     });
 });
@@ -1,5 +1,8 @@
 import * as assert from 'assert'
-import {normalizeTagAttrName} from '../src/view-parser'
+import {Vector} from "prelude.ts";
+import {normalizeTagAttrName, parseView} from '../src/view-parser'
+import {defaultTagDirectiveHandlers, defaultAttrDirectiveHandlers} from "../src/ng-directives"
+import {defaultNgFilters} from "../src/filters"
 
 describe("normalizeTagAttrName", () => {
     it("should normalize names properly", () => {
@@ -12,3 +15,16 @@ describe("normalizeTagAttrName", () => {
         assertNorm("ng-bind", "ngBind");
     });
 });
+
+describe("parseView", () => {
+    it("should check one-time bindings like the other expressions", async () => {
+        // the generated variable names are unique across views
+        const generate = (fileName: string) => parseView(
+            false, fileName, [], [], [],
+            Vector.ofIterable(defaultTagDirectiveHandlers),
+            Vector.ofIterable(defaultAttrDirectiveHandlers),
+            Vector.ofIterable(defaultNgFilters)).then(view => view.source.replace(/___x\d+/g, "___x"));
+        assert.equal(await generate("test/projects/onetime/view.html"),
+                     await generate("test/projects/onetime/one-time-view.html"));
+    });
+});